@@ -0,0 +1,96 @@
+// Storage Valet — Calendly client
+// Shared by booking-reschedule (schedule + cancel) and expire-pending-bookings (cancel)
+// Pluggable: HTTP API (CALENDLY_API_TOKEN) or, when CALENDLY_CLIENT=local, a stand-in that only logs.
+// Without either, createCalendlyClient() returns null so the caller fails closed: the stand-in would
+// report events as moved or canceled while they stay put in Calendly.
+// CALENDLY_API_URL can point the HTTP client at a local mock server for testing.
+
+// Tracking sent with portal-created invitees; calendly-webhook uses it to attach the
+// new event to the existing action instead of creating a booking
+// (keep in sync with calendly-webhook)
+export const PORTAL_TRACKING_SOURCE = 'storage_valet_portal'
+
+export interface CalendlyInvitee {
+  name: string
+  email: string
+  timezone?: string
+}
+
+export interface CalendlyClient {
+  // Book a new event of the given type; returns the new scheduled event URI
+  scheduleEvent(params: {
+    eventTypeUri: string
+    startTime: string
+    invitee: CalendlyInvitee
+    actionId: string
+  }): Promise<string>
+  cancelEvent(eventUri: string, reason: string): Promise<void>
+}
+
+// Calendly API v2: POST /invitees (scheduling API) and POST /scheduled_events/{uuid}/cancellation
+export function createHttpCalendlyClient(apiToken: string, apiUrl: string): CalendlyClient {
+  const headers = {
+    'Authorization': `Bearer ${apiToken}`,
+    'Content-Type': 'application/json',
+  }
+
+  return {
+    async scheduleEvent({ eventTypeUri, startTime, invitee, actionId }) {
+      const response = await fetch(`${apiUrl}/invitees`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          event_type: eventTypeUri,
+          start_time: startTime,
+          invitee,
+          tracking: { utm_source: PORTAL_TRACKING_SOURCE, utm_content: actionId },
+        }),
+      })
+      if (!response.ok) {
+        throw new Error(`Calendly scheduling failed (${response.status}): ${await response.text()}`)
+      }
+      const { resource } = await response.json()
+      if (!resource?.event) {
+        throw new Error('Calendly scheduling response has no event URI')
+      }
+      return resource.event
+    },
+
+    async cancelEvent(eventUri: string, reason: string) {
+      const eventUuid = eventUri.split('/').pop()
+      const response = await fetch(`${apiUrl}/scheduled_events/${eventUuid}/cancellation`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ reason }),
+      })
+      if (!response.ok) {
+        throw new Error(`Calendly cancellation failed (${response.status}): ${await response.text()}`)
+      }
+    },
+  }
+}
+
+// Local stand-in: records what would have been sent to Calendly
+export function createLocalCalendlyClient(): CalendlyClient {
+  return {
+    scheduleEvent({ eventTypeUri, startTime, invitee, actionId }) {
+      const eventUri = `https://api.calendly.com/scheduled_events/local-${crypto.randomUUID()}`
+      console.log(`[calendly stand-in] scheduleEvent ${eventTypeUri} at ${startTime} for ${invitee.email} (action ${actionId}) → ${eventUri}`)
+      return Promise.resolve(eventUri)
+    },
+
+    cancelEvent(eventUri: string, reason: string) {
+      console.log(`[calendly stand-in] cancelEvent ${eventUri} (reason: ${reason})`)
+      return Promise.resolve()
+    },
+  }
+}
+
+export function createCalendlyClient(env: { get(key: string): string | undefined } = Deno.env): CalendlyClient | null {
+  const apiToken = env.get('CALENDLY_API_TOKEN')
+  if (apiToken) {
+    return createHttpCalendlyClient(apiToken, env.get('CALENDLY_API_URL') || 'https://api.calendly.com')
+  }
+  if (env.get('CALENDLY_CLIENT') === 'local') return createLocalCalendlyClient()
+  return null
+}
@@ -0,0 +1,49 @@
+// Storage Valet — plan coverage (declared value) caps and items in storage
+// Shared by items (per-item cap, raising values), complete-service (pickups) and account-summary
+
+export interface CoverageCaps {
+  perItem: number
+  total: number
+}
+
+// Coverage caps in dollars. Every plan (v1 setup fee and v2_trial_14d) has the same coverage, so this
+// is one constant rather than a per-plan table; key it by customer_profile.billing_version if that changes
+export const COVERAGE_CAPS: CoverageCaps = { perItem: 1000, total: 5000 }
+
+// Booking states whose items have been released (not held for the visit)
+const CLOSED_ACTION_STATUSES = ['completed', 'canceled', 'no_show']
+
+// Items physically in the warehouse: 'stored', plus 'scheduled' items booked for delivery
+// (a 'scheduled' item on an open booking's pickup list is still at the customer's home)
+export async function fetchItemsInStorage(
+  supabase: any,
+  userId: string
+): Promise<{ items: { id: string; status: string; declared_value: number | null }[]; error: any }> {
+  const { data: items, error: itemsError } = await supabase
+    .from('items')
+    .select('id, status, declared_value')
+    .eq('user_id', userId)
+    .in('status', ['stored', 'scheduled'])
+    .is('archived_at', null)
+
+  if (itemsError) return { items: [], error: itemsError }
+  if (!(items || []).some((item: any) => item.status === 'scheduled')) {
+    return { items: items || [], error: null }
+  }
+
+  const { data: openDeliveries, error: actionsError } = await supabase
+    .from('actions')
+    .select('delivery_item_ids')
+    .eq('user_id', userId)
+    .not('status', 'in', `(${CLOSED_ACTION_STATUSES.join(',')})`)
+
+  if (actionsError) return { items: [], error: actionsError }
+
+  const outForDelivery = new Set<string>(
+    (openDeliveries || []).flatMap((action: any) => action.delivery_item_ids || [])
+  )
+  return {
+    items: items.filter((item: any) => item.status === 'stored' || outForDelivery.has(item.id)),
+    error: null
+  }
+}
@@ -0,0 +1,148 @@
+// Storage Valet — monthly subscription start for v1 setup-fee customers
+// Shared by complete-service (auto start after the first pickup) and approve-subscription-start
+// (admin approval of a queued start)
+//
+// Protection against starting two subscriptions, in order:
+// 1. Claim: the customer's subscription_start_requests row (one per user) moves to 'starting'
+//    atomically, so a pickup and an admin approval can't both get past this point
+// 2. Stripe check: a live subscription already on the customer (e.g. from a create whose
+//    response was lost) is returned instead of creating another
+// 3. One idempotency key per customer, with the same parameters on every attempt: metadata comes
+//    from the request row and the collection method is fixed on it the first time it's chosen
+
+import Stripe from 'npm:stripe@17'
+
+// Used when the customer has no saved card (setup-fee checkouts don't save one)
+const INVOICE_DAYS_UNTIL_DUE = Number(Deno.env.get('SUBSCRIPTION_INVOICE_DAYS_UNTIL_DUE') || '7')
+
+// A 'starting' claim older than this was abandoned (function died mid-start) and can be re-claimed
+const STALE_CLAIM_MS = 10 * 60 * 1000
+
+// Subscription statuses that no longer bill
+const ENDED_SUBSCRIPTION_STATUSES = ['canceled', 'incomplete_expired']
+
+const CLAIM_COLUMNS = 'user_id, action_id, collection_method'
+
+type CollectionMethod = 'charge_automatically' | 'send_invoice'
+
+export interface SubscriptionStartClaim {
+  userId: string
+  actionId: string | null
+  collectionMethod: CollectionMethod | null
+}
+
+function toClaim(row: any): SubscriptionStartClaim {
+  return { userId: row.user_id, actionId: row.action_id, collectionMethod: row.collection_method }
+}
+
+// complete-service: claim a customer with no request yet; null if one already exists
+// (queued, being started, or done)
+export async function claimNewSubscriptionStart(
+  supabase: any,
+  params: { userId: string; actionId: string; stripeCustomerId: string }
+): Promise<SubscriptionStartClaim | null> {
+  const { data: claimed, error } = await supabase
+    .from('subscription_start_requests')
+    .upsert(
+      {
+        user_id: params.userId,
+        action_id: params.actionId,
+        stripe_customer_id: params.stripeCustomerId,
+        status: 'starting',
+        reason: 'auto_start',
+        claimed_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id', ignoreDuplicates: true }
+    )
+    .select(CLAIM_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  return claimed ? toClaim(claimed) : null
+}
+
+// approve-subscription-start: claim a pending request (or an abandoned 'starting' one);
+// null if there is none to claim
+export async function claimQueuedSubscriptionStart(
+  supabase: any,
+  userId: string
+): Promise<SubscriptionStartClaim | null> {
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString()
+  const { data: claimed, error } = await supabase
+    .from('subscription_start_requests')
+    .update({ status: 'starting', claimed_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .or(`status.eq.pending,and(status.eq.starting,claimed_at.lt."${staleBefore}")`)
+    .select(CLAIM_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  return claimed ? toClaim(claimed) : null
+}
+
+// Hand a claim that didn't start a subscription back to the admin queue
+export async function releaseSubscriptionStart(supabase: any, userId: string, reason: string) {
+  const { error } = await supabase
+    .from('subscription_start_requests')
+    .update({ status: 'pending', reason, claimed_at: null })
+    .eq('user_id', userId)
+    .eq('status', 'starting')
+
+  if (error) {
+    console.error(`Failed to release subscription start claim for user ${userId}:`, error)
+  }
+}
+
+// Create the $299/month subscription for a claimed customer, or return the live one already in Stripe
+// Charges the customer's default card when one is saved; otherwise Stripe emails an invoice
+export async function createMonthlySubscription(
+  stripe: Stripe,
+  supabase: any,
+  claim: SubscriptionStartClaim,
+  stripeCustomerId: string
+): Promise<Stripe.Subscription> {
+  const monthlyPriceId = Deno.env.get('STRIPE_PRICE_MONTHLY')
+  if (!monthlyPriceId) {
+    throw new Error('STRIPE_PRICE_MONTHLY environment variable not configured')
+  }
+
+  const existing = await stripe.subscriptions.list({ customer: stripeCustomerId, status: 'all', limit: 100 })
+  const live = existing.data.find(subscription => !ENDED_SUBSCRIPTION_STATUSES.includes(subscription.status))
+  if (live) {
+    console.log(`Stripe customer ${stripeCustomerId} already has subscription ${live.id} (${live.status}), not creating another`)
+    return live
+  }
+
+  let collectionMethod = claim.collectionMethod
+  if (!collectionMethod) {
+    const customer = await stripe.customers.retrieve(stripeCustomerId)
+    if ((customer as Stripe.DeletedCustomer).deleted) {
+      throw new Error(`Stripe customer ${stripeCustomerId} is deleted`)
+    }
+    collectionMethod = (customer as Stripe.Customer).invoice_settings?.default_payment_method
+      ? 'charge_automatically'
+      : 'send_invoice'
+
+    // Fixed for every later attempt under the same idempotency key
+    const { error } = await supabase
+      .from('subscription_start_requests')
+      .update({ collection_method: collectionMethod })
+      .eq('user_id', claim.userId)
+    if (error) throw error
+  }
+
+  return await stripe.subscriptions.create(
+    {
+      customer: stripeCustomerId,
+      items: [{ price: monthlyPriceId, quantity: 1 }],
+      metadata: {
+        user_id: claim.userId,
+        subscription_start_method: 'first_pickup',
+        ...(claim.actionId && { action_id: claim.actionId }),
+      },
+      collection_method: collectionMethod,
+      ...(collectionMethod === 'send_invoice' && { days_until_due: INVOICE_DAYS_UNTIL_DUE }),
+    },
+    { idempotencyKey: `monthly-subscription-${claim.userId}` }
+  )
+}
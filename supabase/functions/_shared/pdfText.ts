@@ -0,0 +1,24 @@
+// Storage Valet — text safe for pdf-lib standard fonts
+// Standard fonts (Helvetica etc.) only encode WinAnsi; drawText throws on anything else
+// (emoji, CJK, many accented letters typed by customers). Shared by item-labels and route-manifest.
+
+// Drawn in place of characters the font can't encode
+const REPLACEMENT_CHARACTER = '?'
+
+// Keep characters the font encodes, fall back to the unaccented letter (e.g. "é" stays, "ő" → "o"),
+// otherwise substitute REPLACEMENT_CHARACTER; line breaks and tabs become spaces
+export function toEncodableText(text: string, font: { getCharacterSet(): number[] }): string {
+  const supported = new Set(font.getCharacterSet())
+  let result = ''
+  for (const char of text.replace(/[\r\n\t]+/g, ' ')) {
+    if (supported.has(char.codePointAt(0)!)) {
+      result += char
+      continue
+    }
+    const base = char.normalize('NFKD').replace(/\p{M}/gu, '')
+    result += base.length > 0 && [...base].every(c => supported.has(c.codePointAt(0)!))
+      ? base
+      : REPLACEMENT_CHARACTER
+  }
+  return result
+}
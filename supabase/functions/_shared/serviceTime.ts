@@ -0,0 +1,22 @@
+// Storage Valet — customer-facing service dates and windows
+// Shared by send-email (template variables) and send-appointment-reminders (SMS text)
+
+// Customer-facing timezone for service dates/windows (service area is northern NJ)
+export const SERVICE_TIMEZONE = 'America/New_York'
+
+// Format a service window, e.g. "Tuesday, October 20" and "9:00 AM – 11:00 AM" (start time only without an end)
+export function formatServiceWindow(startIso: string, endIso?: string): { date: string; window: string } {
+  const start = new Date(startIso)
+  const date = start.toLocaleDateString('en-US', {
+    timeZone: SERVICE_TIMEZONE,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  })
+  const timeFormat: Intl.DateTimeFormatOptions = { timeZone: SERVICE_TIMEZONE, hour: 'numeric', minute: '2-digit' }
+  const startTime = start.toLocaleTimeString('en-US', timeFormat)
+  const window = endIso
+    ? `${startTime} – ${new Date(endIso).toLocaleTimeString('en-US', timeFormat)}`
+    : startTime
+  return { date, window }
+}
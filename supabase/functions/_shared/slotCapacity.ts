@@ -0,0 +1,78 @@
+// Storage Valet — slot capacity (vans and items per booking window)
+// Shared by calendly-webhook (flags over-capacity bookings), update-booking-items and
+// booking-reschedule (reject selections/moves that don't fit)
+//
+// slot_capacity rules are in the service timezone: weekday (0 = Sunday, null = every day)
+// and a [window_start, window_end) local time range. vans = concurrent bookings,
+// max_items = pickup + delivery items across all bookings in the window (null = uncapped).
+// Without a matching active rule, vans falls back to STAFF_CAPACITY_PER_SLOT and items are uncapped.
+const SERVICE_TIMEZONE = 'America/New_York'
+const DEFAULT_VANS_PER_SLOT = Number(Deno.env.get('STAFF_CAPACITY_PER_SLOT') || '2')
+
+// Statuses that occupy a crew during their window
+const CAPACITY_CONSUMING_STATES = ['pending_items', 'pending_confirmation', 'confirmed', 'in_progress']
+
+export interface SlotCapacity {
+  vans: number
+  maxItems: number | null
+  ruleId: string | null
+}
+
+export interface SlotUsage {
+  bookings: number
+  items: number
+}
+
+// Weekday (0 = Sunday) and HH:MM of an instant in the service timezone
+function serviceLocalTime(date: Date): { weekday: number; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: SERVICE_TIMEZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const part = (type: string) => parts.find(p => p.type === type)?.value || ''
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'))
+  return { weekday, time: `${part('hour')}:${part('minute')}` }
+}
+
+// Capacity rule covering a slot's start; weekday-specific rules win over every-day rules
+export async function getSlotCapacity(supabase: any, start: Date): Promise<SlotCapacity> {
+  const { weekday, time } = serviceLocalTime(start)
+  const { data: rules, error } = await supabase
+    .from('slot_capacity')
+    .select('id, weekday, vans, max_items')
+    .eq('active', true)
+    .or(`weekday.is.null,weekday.eq.${weekday}`)
+    .lte('window_start', time)
+    .gt('window_end', time)
+
+  if (error) throw error
+
+  const rule = (rules || []).find((r: any) => r.weekday !== null) || (rules || [])[0]
+  if (!rule) return { vans: DEFAULT_VANS_PER_SLOT, maxItems: null, ruleId: null }
+  return { vans: rule.vans, maxItems: rule.max_items, ruleId: rule.id }
+}
+
+// Bookings and items already overlapping [start, end), excluding one action
+export async function getSlotUsage(supabase: any, start: Date, end: Date, excludeActionId: string | null): Promise<SlotUsage> {
+  let query = supabase
+    .from('actions')
+    .select('id, pickup_item_ids, delivery_item_ids')
+    .in('status', CAPACITY_CONSUMING_STATES)
+    .lt('scheduled_start', end.toISOString())
+    .gt('scheduled_end', start.toISOString())
+  if (excludeActionId) query = query.neq('id', excludeActionId)
+
+  const { data: overlapping, error } = await query
+  if (error) throw error
+
+  return {
+    bookings: (overlapping || []).length,
+    items: (overlapping || []).reduce(
+      (sum: number, a: any) => sum + (a.pickup_item_ids || []).length + (a.delivery_item_ids || []).length,
+      0
+    ),
+  }
+}
@@ -0,0 +1,17 @@
+// Storage Valet — staff alerts (ops review queue)
+// Shared by calendly-webhook and expire-pending-bookings
+
+// One alert per action and alert type: redelivered webhooks and repeated sweeps don't pile up
+// duplicates (unique index on staff_alerts (action_id, alert_type), migration 0021)
+export async function createStaffAlert(
+  supabase: any,
+  alert: { alert_type: string; action_id: string; message: string; metadata: Record<string, unknown> }
+) {
+  const { error: alertError } = await supabase
+    .from('staff_alerts')
+    .upsert(alert, { onConflict: 'action_id,alert_type', ignoreDuplicates: true })
+
+  if (alertError) {
+    console.error('❌ Failed to create staff alert:', alertError)
+  }
+}
@@ -0,0 +1,10 @@
+// Storage Valet — staff cancellation reason codes
+// Shared by staff-booking-cancel (validation + booking_canceled email) and booking-get (timeline)
+
+// Reason codes → customer-facing text
+export const STAFF_CANCEL_REASONS: Record<string, string> = {
+  weather: 'Unsafe weather conditions in your area',
+  customer_no_show: 'We were unable to reach you at the scheduled time',
+  vehicle_issue: 'An issue with our service vehicle',
+  other: 'An unexpected scheduling issue',
+}
@@ -0,0 +1,139 @@
+// Storage Valet — Account Summary Edge Function
+// v1.1 • Declared value in storage includes stored items booked for delivery (still in the warehouse)
+// v1.0 • Item counts, declared value in storage and plan coverage for the portal account page
+//
+// Invocation: POST /functions/v1/account-summary (Edge Function)
+// Auth: JWT required in Authorization header
+// Returns: { summary: { subscription_status, item_counts, declared_value_in_storage, coverage } }
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { COVERAGE_CAPS, fetchItemsInStorage } from '../_shared/coverage.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: CORS_HEADERS })
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const token = authHeader.replace(/^Bearer\s+/i, '')
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: 'No token provided' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Verify JWT via Supabase Auth
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser()
+
+    if (authError || !user) {
+      console.error('Auth verification failed:', authError?.message || 'No user returned')
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const userId = user.id
+    console.log('Account summary requested by user:', userId)
+
+    // Service role client for database reads, scoped by user_id
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: profile, error: profileError } = await supabase
+      .from('customer_profile')
+      .select('subscription_status')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (profileError) {
+      console.error('Failed to fetch customer profile:', profileError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch account' }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('items')
+      .select('status, declared_value')
+      .eq('user_id', userId)
+      .is('archived_at', null)
+
+    if (itemsError) {
+      console.error('Failed to fetch items:', itemsError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch items' }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const itemCounts: Record<string, number> = { home: 0, scheduled: 0, stored: 0, total: 0 }
+    for (const item of (items || [])) {
+      itemCounts[item.status] = (itemCounts[item.status] || 0) + 1
+      itemCounts.total++
+    }
+
+    // Stored items plus those booked for delivery (still in the warehouse, still covered)
+    const { items: storedItems, error: storedError } = await fetchItemsInStorage(supabase, userId)
+
+    if (storedError) {
+      console.error('Failed to fetch items in storage:', storedError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch items' }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const declaredValueInStorage = storedItems
+      .reduce((sum, item) => sum + Number(item.declared_value || 0), 0)
+
+    const summary = {
+      subscription_status: profile?.subscription_status || 'inactive',
+      item_counts: itemCounts,
+      declared_value_in_storage: declaredValueInStorage,
+      coverage: {
+        per_item_cap: COVERAGE_CAPS.perItem,
+        total_cap: COVERAGE_CAPS.total,
+        remaining: Math.max(0, COVERAGE_CAPS.total - declaredValueInStorage)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ summary }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    )
+
+  } catch (error) {
+    console.error('Account summary error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    )
+  }
+})
@@ -0,0 +1,278 @@
+// Storage Valet — Approve Subscription Start Edge Function
+// v1.1 • Approval claims the request ('starting') and shares subscription creation with complete-service
+// v1.0 • Admin review of queued monthly subscription starts (SUBSCRIPTION_START_MODE=approval)
+// CTO Mandate: Server-side auth check required (not just UI gating)
+//
+// Invocation: POST /functions/v1/approve-subscription-start (Edge Function)
+// Auth: JWT required; caller must be an admin in sv.staff
+// Body: { "operation": "list" | "approve" | "reject", "user_id"?: "uuid", "note"?: "text" }
+//
+// complete-service queues a request when a v1 setup-fee customer's first pickup completes
+// (approval mode, missing Stripe customer, or a failed auto-start).
+// approve creates the subscription in Stripe; stripe-webhook records it on customer_profile
+// through update_subscription_status (customer.subscription.created).
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'npm:stripe@17'
+import {
+  claimQueuedSubscriptionStart,
+  createMonthlySubscription,
+  releaseSubscriptionStart,
+} from '../_shared/monthlySubscription.ts'
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+})
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase clients
+    // User client - to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+    // Service client - for admin operations
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`Approve subscription start request from user: ${caller.id}`)
+
+    // SERVER-SIDE AUTH CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: adminCheckError } = await supabaseAdmin
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .eq('role', 'admin')
+      .maybeSingle()
+
+    if (adminCheckError) {
+      console.error('Admin check query failed:', adminCheckError)
+      return new Response(
+        JSON.stringify({ error: `Staff check failed: ${adminCheckError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!staffRecord) {
+      console.error('Admin check failed: User not in sv.staff or not admin role')
+      return new Response(
+        JSON.stringify({ error: 'Access denied: Admin role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`Admin verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request body
+    const body = await req.json()
+    const { operation, user_id, note } = body
+
+    if (operation === 'list') {
+      const { data: requests, error: listError } = await supabaseAdmin
+        .from('subscription_start_requests')
+        .select('user_id, action_id, stripe_customer_id, status, reason, requested_at')
+        .eq('status', 'pending')
+        .order('requested_at', { ascending: true })
+
+      if (listError) {
+        console.error('Failed to list subscription start requests:', listError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to list requests' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ requests: requests || [] }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (operation !== 'approve' && operation !== 'reject') {
+      return new Response(
+        JSON.stringify({ error: 'operation must be one of: list, approve, reject' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'user_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: request, error: requestError } = await supabaseAdmin
+      .from('subscription_start_requests')
+      .select('user_id, status')
+      .eq('user_id', user_id)
+      .maybeSingle()
+
+    if (requestError || !request) {
+      return new Response(
+        JSON.stringify({ error: 'No subscription start request for this customer' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // 'starting' may be an abandoned claim; the approve claim below decides
+    if (request.status !== 'pending' && !(operation === 'approve' && request.status === 'starting')) {
+      return new Response(
+        JSON.stringify({ error: `Request already ${request.status}` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (operation === 'reject') {
+      const { error: rejectError } = await supabaseAdmin
+        .from('subscription_start_requests')
+        .update({
+          status: 'rejected',
+          decided_by: caller.id,
+          decided_at: new Date().toISOString(),
+          decision_note: note || null,
+        })
+        .eq('user_id', user_id)
+        .eq('status', 'pending')
+
+      if (rejectError) {
+        console.error('Failed to reject request:', rejectError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to reject request' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      console.log(`Subscription start for user ${user_id} rejected by admin ${caller.id}`)
+      return new Response(
+        JSON.stringify({ success: true, user_id, status: 'rejected' }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // APPROVE: re-check the customer still needs a subscription
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('customer_profile')
+      .select('stripe_customer_id, subscription_id, setup_fee_paid')
+      .eq('user_id', user_id)
+      .maybeSingle()
+
+    if (profileError || !profile) {
+      return new Response(
+        JSON.stringify({ error: 'Customer profile not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (profile.subscription_id) {
+      return new Response(
+        JSON.stringify({ error: 'Customer already has a subscription', subscription_id: profile.subscription_id }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!profile.stripe_customer_id) {
+      return new Response(
+        JSON.stringify({ error: 'Customer has no Stripe customer; start the subscription from the Stripe dashboard' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // ATOMIC: only one approval (or pickup auto-start) can hold the request while starting
+    const claim = await claimQueuedSubscriptionStart(supabaseAdmin, user_id)
+    if (!claim) {
+      return new Response(
+        JSON.stringify({ error: 'Request is already being processed' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    let subscription: Stripe.Subscription
+    try {
+      subscription = await createMonthlySubscription(stripe, supabaseAdmin, claim, profile.stripe_customer_id)
+    } catch (err) {
+      console.error(`Failed to create subscription for user ${user_id}:`, err)
+      const message = err instanceof Error ? err.message : String(err)
+      await releaseSubscriptionStart(supabaseAdmin, user_id, `approval_failed: ${message}`)
+      return new Response(
+        JSON.stringify({ error: `Stripe error: ${message}` }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { error: approveError } = await supabaseAdmin
+      .from('subscription_start_requests')
+      .update({
+        status: 'approved',
+        subscription_id: subscription.id,
+        decided_by: caller.id,
+        decided_at: new Date().toISOString(),
+        decision_note: note || null,
+      })
+      .eq('user_id', user_id)
+      .eq('status', 'starting')
+
+    if (approveError) {
+      // Subscription exists in Stripe; the webhook still records it on customer_profile,
+      // and a retried approval finds it there instead of creating another
+      console.error('Failed to mark request approved:', approveError)
+    }
+
+    console.log(`Subscription ${subscription.id} (${subscription.collection_method}) started for user ${user_id} by admin ${caller.id}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        user_id,
+        status: 'approved',
+        subscription_id: subscription.id,
+        subscription_status: subscription.status,
+        collection_method: subscription.collection_method
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('approve-subscription-start error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
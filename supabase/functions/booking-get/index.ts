@@ -1,13 +1,17 @@
 // Storage Valet — Booking Detail Edge Function
+// v1.3 • Declared value per item and booking total
+// v1.2 • Optional customer-safe timeline from booking_events (include_timeline)
+// v1.1 • Proof of service (photos, signature, driver notes) for completed bookings
 // v1.0 • Fetch single booking detail for authenticated user
 //
 // Invocation: POST /functions/v1/booking-get (Edge Function)
 // Auth: JWT required in Authorization header
-// Body: { "booking_id": "uuid" }
+// Body: { "booking_id": "uuid", "include_timeline"?: boolean }
 // Returns: Full booking detail needed by portal (read-only)
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { STAFF_CANCEL_REASONS } from '../_shared/staffCancelReasons.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
@@ -19,6 +23,42 @@ const CORS_HEADERS = {
   'Access-Control-Allow-Headers': 'authorization, content-type',
 }
 
+// booking_events types shown to customers → label + whitelisted details
+// Anything not listed here (webhook diagnostics, refusals, staff-only notes) is omitted,
+// and metadata is never passed through wholesale (no staff ids, no raw Calendly payloads)
+const TIMELINE_EVENTS: Record<string, { label: string; details?: (metadata: any) => Record<string, unknown> }> = {
+  calendly_booking_created: { label: 'Booking created' },
+  calendly_booking_rescheduled: {
+    label: 'Booking rescheduled',
+    details: (m) => ({ previous_start: m.previous_start, new_start: m.new_start, new_end: m.new_end }),
+  },
+  portal_booking_rescheduled: {
+    label: 'Booking rescheduled',
+    details: (m) => ({ previous_start: m.previous_start, new_start: m.new_start, new_end: m.new_end }),
+  },
+  items_updated: {
+    label: 'Items updated',
+    details: (m) => ({ pickup_count: m.pickup_count, delivery_count: m.delivery_count }),
+  },
+  booking_confirmed: { label: 'Booking confirmed' },
+  service_started: {
+    label: 'Driver arrived',
+    details: (m) => ({ arrived_at: m.arrived_at }),
+  },
+  service_completed: {
+    label: 'Service completed',
+    details: (m) => ({ items_completed: m.items_updated }),
+  },
+  portal_booking_canceled: { label: 'Booking canceled by you' },
+  calendly_booking_canceled: { label: 'Booking canceled' },
+  staff_booking_canceled: {
+    label: 'Booking canceled by Storage Valet',
+    details: (m) => ({ reason: STAFF_CANCEL_REASONS[m.reason_code] || STAFF_CANCEL_REASONS.other }),
+  },
+  no_show: { label: 'Missed appointment' },
+  system_auto_canceled: { label: 'Booking canceled: no items selected in time' },
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -61,7 +101,7 @@ serve(async (req) => {
     const userId = user.id
 
     // Parse request body
-    const { booking_id } = await req.json()
+    const { booking_id, include_timeline = false } = await req.json()
 
     if (!booking_id) {
       return new Response(
@@ -88,6 +128,10 @@ serve(async (req) => {
         service_address,
         pickup_item_ids,
         delivery_item_ids,
+        completed_at,
+        proof_photo_paths,
+        signature_path,
+        driver_notes,
         created_at,
         updated_at
       `)
@@ -121,7 +165,7 @@ serve(async (req) => {
     if (allItemIds.length > 0) {
       const { data: itemData, error: itemsError } = await supabase
         .from('items')
-        .select('id, label, status, photo_paths, category')
+        .select('id, label, status, photo_paths, category, declared_value')
         .in('id', allItemIds)
         .eq('user_id', userId)
 
@@ -130,6 +174,32 @@ serve(async (req) => {
       }
     }
 
+    // Timeline (opt-in): translated booking_events, oldest first
+    let timeline: any[] | undefined
+    if (include_timeline === true) {
+      const { data: events, error: eventsError } = await supabase
+        .from('booking_events')
+        .select('event_type, metadata, created_at')
+        .eq('action_id', booking_id)
+        .order('created_at', { ascending: true })
+
+      if (eventsError) {
+        console.error('Failed to fetch booking events:', eventsError)
+      }
+
+      timeline = (events || [])
+        .filter((event: any) => TIMELINE_EVENTS[event.event_type])
+        .map((event: any) => {
+          const entry = TIMELINE_EVENTS[event.event_type]
+          return {
+            type: event.event_type,
+            label: entry.label,
+            occurred_at: event.created_at,
+            ...(entry.details && { details: entry.details(event.metadata || {}) })
+          }
+        })
+    }
+
     // Build response (exclude user_id from response, already verified)
     const response = {
       id: booking.id,
@@ -145,7 +215,18 @@ serve(async (req) => {
         pickup: (booking.pickup_item_ids || []).length,
         delivery: (booking.delivery_item_ids || []).length,
         total: allItemIds.length
-      }
+      },
+      declared_value_total: items.reduce((sum, item) => sum + Number(item.declared_value || 0), 0),
+      // Evidence captured by staff at completion (null until the booking is completed)
+      proof_of_service: booking.status === 'completed'
+        ? {
+            completed_at: booking.completed_at,
+            photo_paths: booking.proof_photo_paths || [],
+            signature_path: booking.signature_path,
+            driver_notes: booking.driver_notes
+          }
+        : null,
+      ...(timeline && { timeline })
     }
 
     console.log(`Returning booking ${booking_id} with ${items.length} items`)
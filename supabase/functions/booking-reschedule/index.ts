@@ -0,0 +1,218 @@
+// Storage Valet — Booking Reschedule Edge Function
+// v1.2 • Books the new slot in Calendly and keeps the action linked to it; fails closed without a Calendly client
+// v1.1 • Capacity from slot_capacity rules (vans + max items per window)
+// v1.0 • Customer reschedule from the portal (no Calendly cancel/create round-trip)
+//
+// Invocation: POST /functions/v1/booking-reschedule (Edge Function)
+// Auth: JWT required in Authorization header
+// Body: { "booking_id": "uuid", "scheduled_start": "ISO-8601", "scheduled_end": "ISO-8601" }
+//
+// Customer-allowed states for rescheduling:
+// - pending_items
+// - pending_confirmation
+//
+// On reschedule:
+// - Validates the new window (future, start < end) against slot capacity (vans and items)
+// - Calendly bookings: books the new time in Calendly (see _shared/calendly.ts), then moves
+//   scheduled_start/scheduled_end and calendly_event_uri to it in one update; item selections
+//   and status are untouched. The original event is canceled afterwards, and its invitee.canceled
+//   webhook no longer matches this booking.
+//
+// Calendly client: real API when CALENDLY_API_TOKEN is set, the logging stand-in only with
+// CALENDLY_CLIENT=local; otherwise Calendly-backed bookings can't be rescheduled (503).
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createCalendlyClient } from '../_shared/calendly.ts'
+import { moveBooking } from './reschedule.ts'
+import { getSlotCapacity, getSlotUsage, type SlotCapacity, type SlotUsage } from '../_shared/slotCapacity.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+}
+
+// States where customer can reschedule
+const CUSTOMER_RESCHEDULABLE_STATES = ['pending_items', 'pending_confirmation']
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: CORS_HEADERS })
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const token = authHeader.replace(/^Bearer\s+/i, '')
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: 'No token provided' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Verify JWT via Supabase Auth
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser()
+
+    if (authError || !user) {
+      console.error('Auth verification failed:', authError?.message || 'No user returned')
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const userId = user.id
+
+    // Parse request body
+    const { booking_id, scheduled_start, scheduled_end } = await req.json()
+
+    if (!booking_id || !scheduled_start || !scheduled_end) {
+      return new Response(
+        JSON.stringify({ error: 'booking_id, scheduled_start and scheduled_end are required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const newStart = new Date(scheduled_start)
+    const newEnd = new Date(scheduled_end)
+
+    if (isNaN(newStart.getTime()) || isNaN(newEnd.getTime())) {
+      return new Response(
+        JSON.stringify({ error: 'scheduled_start and scheduled_end must be valid timestamps' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    if (newEnd <= newStart) {
+      return new Response(
+        JSON.stringify({ error: 'scheduled_end must be after scheduled_start' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    if (newStart.getTime() <= Date.now()) {
+      return new Response(
+        JSON.stringify({ error: 'scheduled_start must be in the future' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    console.log(`Reschedule requested for booking ${booking_id} by user ${userId}: ${newStart.toISOString()} – ${newEnd.toISOString()}`)
+
+    // Service role client for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Fetch booking with ownership check
+    const { data: booking, error: fetchError } = await supabase
+      .from('actions')
+      .select('id, user_id, status, scheduled_start, scheduled_end, calendly_event_uri, calendly_payload, pickup_item_ids, delivery_item_ids')
+      .eq('id', booking_id)
+      .single()
+
+    if (fetchError || !booking) {
+      console.error('Booking not found:', fetchError)
+      return new Response(
+        JSON.stringify({ error: 'Booking not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Verify ownership
+    if (booking.user_id !== userId) {
+      console.error(`Ownership mismatch: booking belongs to ${booking.user_id}, requested by ${userId}`)
+      return new Response(
+        JSON.stringify({ error: 'Booking not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Verify customer can reschedule from current state
+    if (!CUSTOMER_RESCHEDULABLE_STATES.includes(booking.status)) {
+      console.error(`Cannot reschedule: booking status is '${booking.status}', allowed: ${CUSTOMER_RESCHEDULABLE_STATES.join(', ')}`)
+      return new Response(
+        JSON.stringify({
+          error: 'Cannot reschedule booking',
+          reason: `Booking status is '${booking.status}'. Rescheduling is only allowed for bookings in pending states. Please contact support.`
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Slot capacity: vans and items already booked in the new window (this booking excluded)
+    let capacity: SlotCapacity
+    let usage: SlotUsage
+    try {
+      capacity = await getSlotCapacity(supabase, newStart)
+      usage = await getSlotUsage(supabase, newStart, newEnd, booking_id)
+    } catch (capacityError) {
+      console.error('Failed to check capacity:', capacityError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to check availability' }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const bookingItemCount = (booking.pickup_item_ids || []).length + (booking.delivery_item_ids || []).length
+    const vansFull = usage.bookings >= capacity.vans
+    const itemsFull = capacity.maxItems !== null && usage.items + bookingItemCount > capacity.maxItems
+
+    if (vansFull || itemsFull) {
+      console.log(`Slot full: ${usage.bookings}/${capacity.vans} bookings, ${usage.items}+${bookingItemCount}/${capacity.maxItems ?? '∞'} items (rule ${capacity.ruleId || 'default'})`)
+      return new Response(
+        JSON.stringify({
+          error: 'Time slot unavailable',
+          reason: vansFull
+            ? 'That time window is fully booked. Please choose another time.'
+            : 'That time window cannot take this many items. Please choose another time or remove some items.'
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const moved = await moveBooking(supabase, createCalendlyClient(), {
+      booking,
+      newStart,
+      newEnd,
+      reschedulableStates: CUSTOMER_RESCHEDULABLE_STATES,
+    })
+
+    if (!moved.ok) {
+      return new Response(
+        JSON.stringify({ error: moved.error, reason: moved.reason }),
+        { status: moved.status, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    console.log(`Booking ${booking_id} rescheduled successfully`)
+
+    return new Response(
+      JSON.stringify({ ok: true, booking: moved.booking }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    )
+
+  } catch (error) {
+    console.error('Booking reschedule error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    )
+  }
+})
@@ -0,0 +1,157 @@
+// Storage Valet — booking-reschedule move logic (separate from index.ts so it can be tested
+// with the local Calendly stand-in and a fake Supabase client)
+
+import type { CalendlyClient } from '../_shared/calendly.ts'
+
+export interface ReschedulableBooking {
+  id: string
+  user_id: string
+  scheduled_start: string
+  scheduled_end: string
+  calendly_event_uri: string | null
+  calendly_payload: any
+}
+
+export type MoveBookingResult =
+  | {
+      ok: true
+      booking: { id: string; status: string; scheduled_start: string; scheduled_end: string }
+      calendlyEventUri: string | null
+      calendlyCanceled: boolean
+    }
+  | { ok: false; status: number; error: string; reason?: string }
+
+// Move a booking to [newStart, newEnd)
+// Calendly-backed bookings get a new Calendly event first, and the action is pointed at it in the
+// same update that moves the slot, so later invitee.canceled / no-show webhooks still find it.
+// The original event is canceled afterwards; its invitee.canceled webhook no longer matches the action.
+export async function moveBooking(
+  supabase: any,
+  calendly: CalendlyClient | null,
+  params: {
+    booking: ReschedulableBooking
+    newStart: Date
+    newEnd: Date
+    reschedulableStates: string[]
+  }
+): Promise<MoveBookingResult> {
+  const { booking, newStart, newEnd, reschedulableStates } = params
+  const previousEventUri = booking.calendly_event_uri
+
+  let newEventUri: string | null = null
+  if (previousEventUri) {
+    if (!calendly) {
+      console.error('Calendly client not configured (set CALENDLY_API_TOKEN, or CALENDLY_CLIENT=local for testing)')
+      return { ok: false, status: 503, error: 'Rescheduling is temporarily unavailable' }
+    }
+
+    const payload = booking.calendly_payload || {}
+    const eventTypeUri = payload.scheduled_event?.event_type
+    if (!eventTypeUri || !payload.email) {
+      console.error(`Booking ${booking.id} has no Calendly event type or invitee email on record`)
+      return {
+        ok: false,
+        status: 409,
+        error: 'Cannot reschedule booking',
+        reason: 'This booking can only be rescheduled from your Calendly confirmation email.'
+      }
+    }
+
+    try {
+      newEventUri = await calendly.scheduleEvent({
+        eventTypeUri,
+        startTime: newStart.toISOString(),
+        invitee: { name: payload.name || payload.email, email: payload.email, timezone: payload.timezone },
+        actionId: booking.id,
+      })
+    } catch (calendlyError) {
+      console.error('Failed to book the new time in Calendly:', calendlyError)
+      return { ok: false, status: 502, error: 'Failed to book the new time. Please try again.' }
+    }
+
+    console.log(`Booked Calendly event ${newEventUri} for booking ${booking.id}`)
+  }
+
+  // Move the booking (ATOMIC: only if still in a reschedulable state)
+  const { data: updatedBooking, error: updateError } = await supabase
+    .from('actions')
+    .update({
+      scheduled_start: newStart.toISOString(),
+      scheduled_end: newEnd.toISOString(),
+      calendly_event_uri: newEventUri ?? previousEventUri,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', booking.id)
+    .eq('user_id', booking.user_id)
+    .in('status', reschedulableStates)
+    .select('id, status, scheduled_start, scheduled_end')
+    .maybeSingle()
+
+  if (updateError || !updatedBooking) {
+    if (updateError) {
+      console.error('Failed to reschedule booking:', updateError)
+    } else {
+      console.log(`Booking ${booking.id} status changed concurrently, reschedule not applied`)
+    }
+    if (newEventUri) {
+      await releaseNewEvent(supabase, calendly!, booking, newEventUri)
+    }
+    return updateError
+      ? { ok: false, status: 500, error: 'Failed to reschedule booking' }
+      : { ok: false, status: 409, error: 'Cannot reschedule booking', reason: 'Booking status changed. Please refresh and try again.' }
+  }
+
+  // Release the original Calendly slot (non-blocking: the booking has already moved)
+  let calendlyCanceled = false
+  if (newEventUri && previousEventUri) {
+    try {
+      await calendly!.cancelEvent(previousEventUri, 'Rescheduled by customer in portal')
+      calendlyCanceled = true
+    } catch (calendlyError) {
+      console.error('Failed to cancel original Calendly event:', calendlyError)
+    }
+  }
+
+  await supabase.rpc('log_booking_event', {
+    p_action_id: booking.id,
+    p_event_type: 'portal_booking_rescheduled',
+    p_metadata: {
+      previous_start: booking.scheduled_start,
+      previous_end: booking.scheduled_end,
+      new_start: updatedBooking.scheduled_start,
+      new_end: updatedBooking.scheduled_end,
+      previous_event_uri: previousEventUri,
+      event_uri: newEventUri ?? previousEventUri,
+      calendly_event_canceled: calendlyCanceled,
+      rescheduled_by: 'customer',
+      user_id: booking.user_id
+    }
+  })
+
+  return { ok: true, booking: updatedBooking, calendlyEventUri: newEventUri ?? previousEventUri, calendlyCanceled }
+}
+
+// Undo a Calendly booking made for a reschedule that didn't apply
+// calendly-webhook may already have attached the new event to the action, so point it back first
+async function releaseNewEvent(
+  supabase: any,
+  calendly: CalendlyClient,
+  booking: ReschedulableBooking,
+  newEventUri: string
+) {
+  const { error: relinkError } = await supabase
+    .from('actions')
+    .update({ calendly_event_uri: booking.calendly_event_uri, updated_at: new Date().toISOString() })
+    .eq('id', booking.id)
+    .eq('calendly_event_uri', newEventUri)
+
+  if (relinkError) {
+    console.error('Failed to restore original Calendly event on booking:', relinkError)
+  }
+
+  try {
+    await calendly.cancelEvent(newEventUri, 'Reschedule could not be applied')
+  } catch (calendlyError) {
+    console.error(`Failed to cancel unused Calendly event ${newEventUri}:`, calendlyError)
+  }
+}
@@ -1,9 +1,19 @@
 // Storage Valet — Bookings List Edge Function
+// v1.2 • Cursor fields validated (UUID id, ISO-8601 timestamp) before use in filters
+// v1.1 • History views, status/date filters, cursor pagination, per-booking item counts
 // v1.0 • List bookings for authenticated user
 //
 // Invocation: POST /functions/v1/bookings-list (Edge Function)
 // Auth: JWT required in Authorization header
-// Returns: List of bookings ordered by scheduled_start ASC
+// Body (all optional): {
+//   "view": "upcoming" | "past" | "all" (default "all"),
+//   "statuses": ["confirmed", ...] (default: every status except canceled),
+//   "from": "ISO-8601", "to": "ISO-8601" (scheduled_start range, inclusive/exclusive),
+//   "limit": 1-100 (default 50),
+//   "cursor": "<next_cursor from previous page>"
+// }
+// Returns: { bookings, next_cursor, has_more }
+// Ordering: scheduled_start ASC (upcoming/all) or DESC (past), then id; unscheduled rows last
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
@@ -12,6 +22,52 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
+const ACTION_STATUSES = [
+  'pending_items',
+  'pending_confirmation',
+  'confirmed',
+  'in_progress',
+  'completed',
+  'canceled',
+  'no_show',
+]
+
+// Default filter keeps the original list behavior (canceled hidden unless asked for)
+const DEFAULT_STATUSES = ACTION_STATUSES.filter(status => status !== 'canceled')
+
+const VIEWS = ['upcoming', 'past', 'all']
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 100
+
+// Cursor values are interpolated into a PostgREST or() filter, so only these shapes are accepted
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/
+
+// Opaque keyset cursor: position of the last row returned
+interface ListCursor {
+  s: string | null  // scheduled_start
+  id: string
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return btoa(JSON.stringify(cursor))
+}
+
+function decodeCursor(raw: string): ListCursor | null {
+  try {
+    const parsed = JSON.parse(atob(raw))
+    if (typeof parsed?.id !== 'string' || !UUID_PATTERN.test(parsed.id)) return null
+    if (parsed.s !== null && (
+      typeof parsed.s !== 'string' ||
+      !ISO_TIMESTAMP_PATTERN.test(parsed.s) ||
+      isNaN(new Date(parsed.s).getTime())
+    )) return null
+    return { s: parsed.s, id: parsed.id }
+  } catch {
+    return null
+  }
+}
+
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
@@ -60,12 +116,70 @@ serve(async (req) => {
     const userId = user.id
     console.log('Bookings list requested by user:', userId)
 
+    // Parse filters (body is optional; an empty POST lists everything as before)
+    let body: any = {}
+    const rawBody = await req.text()
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody)
+      } catch {
+        return new Response(
+          JSON.stringify({ error: 'Invalid JSON' }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+    }
+
+    const view: string = body.view ?? 'all'
+    if (!VIEWS.includes(view)) {
+      return new Response(
+        JSON.stringify({ error: `view must be one of: ${VIEWS.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const statuses: string[] = body.statuses ?? DEFAULT_STATUSES
+    if (!Array.isArray(statuses) || statuses.length === 0 || !statuses.every(status => ACTION_STATUSES.includes(status))) {
+      return new Response(
+        JSON.stringify({ error: `statuses must be a non-empty array of: ${ACTION_STATUSES.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const from = body.from ? new Date(body.from) : null
+    const to = body.to ? new Date(body.to) : null
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return new Response(
+        JSON.stringify({ error: 'from and to must be valid timestamps' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const limit = body.limit ?? DEFAULT_PAGE_SIZE
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return new Response(
+        JSON.stringify({ error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const cursor = body.cursor ? decodeCursor(body.cursor) : null
+    if (body.cursor && !cursor) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid cursor' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
     // Service role client for database reads, scoped by user_id
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Fetch bookings for user, ordered by scheduled_start ASC
-    // Only return fields needed for portal list view (no internal arrays)
-    const { data: bookings, error: fetchError } = await supabase
+    // Past bookings read newest-first; upcoming and all read in calendar order
+    const ascending = view !== 'past'
+    const now = new Date().toISOString()
+
+    // Item id arrays are fetched only to count them; they are not returned
+    let query = supabase
       .from('actions')
       .select(`
         id,
@@ -73,12 +187,40 @@ serve(async (req) => {
         service_type,
         scheduled_start,
         scheduled_end,
+        pickup_item_ids,
+        delivery_item_ids,
         created_at,
         updated_at
       `)
       .eq('user_id', userId)
-      .neq('status', 'canceled')
-      .order('scheduled_start', { ascending: true, nullsFirst: false })
+      .in('status', statuses)
+
+    if (view === 'upcoming') query = query.gte('scheduled_end', now)
+    if (view === 'past') query = query.lt('scheduled_end', now)
+    if (from) query = query.gte('scheduled_start', from.toISOString())
+    if (to) query = query.lt('scheduled_start', to.toISOString())
+
+    // Keyset pagination on (scheduled_start, id); unscheduled rows sort last in both directions
+    if (cursor) {
+      const idOp = ascending ? 'gt' : 'lt'
+      if (cursor.s === null) {
+        query = query.is('scheduled_start', null)
+        query = ascending ? query.gt('id', cursor.id) : query.lt('id', cursor.id)
+      } else {
+        const startOp = ascending ? 'gt' : 'lt'
+        query = query.or(
+          `scheduled_start.${startOp}."${cursor.s}",` +
+          `and(scheduled_start.eq."${cursor.s}",id.${idOp}.${cursor.id}),` +
+          'scheduled_start.is.null'
+        )
+      }
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data: rows, error: fetchError } = await query
+      .order('scheduled_start', { ascending, nullsFirst: false })
+      .order('id', { ascending })
+      .limit(limit + 1)
 
     if (fetchError) {
       console.error('Failed to fetch bookings:', fetchError)
@@ -88,10 +230,26 @@ serve(async (req) => {
       )
     }
 
-    console.log(`Returning ${bookings?.length || 0} bookings for user ${userId}`)
+    const hasMore = (rows || []).length > limit
+    const pageRows = (rows || []).slice(0, limit)
+    const lastRow = pageRows[pageRows.length - 1]
+    const nextCursor = hasMore && lastRow
+      ? encodeCursor({ s: lastRow.scheduled_start, id: lastRow.id })
+      : null
+
+    const bookings = pageRows.map(({ pickup_item_ids, delivery_item_ids, ...booking }: any) => ({
+      ...booking,
+      item_counts: {
+        pickup: (pickup_item_ids || []).length,
+        delivery: (delivery_item_ids || []).length,
+        total: (pickup_item_ids || []).length + (delivery_item_ids || []).length
+      }
+    }))
+
+    console.log(`Returning ${bookings.length} bookings for user ${userId} (view: ${view}, has_more: ${hasMore})`)
 
     return new Response(
-      JSON.stringify({ bookings: bookings || [] }),
+      JSON.stringify({ bookings, next_cursor: nextCursor, has_more: hasMore }),
       { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
     )
 
@@ -1,15 +1,37 @@
 // Storage Valet — Calendly Webhook Edge Function
+// v2.11 • Calendly cancellations and reschedules apply only if the action is still cancelable/reschedulable at update time
+// v2.10 • Staff alerts deduplicated per action and alert type; slot capacity from _shared/slotCapacity.ts
+// v2.9 • No-show count changes are atomic and idempotent (no_show_cleared_at marks an undone no-show)
+// v2.8 • Events booked by booking-reschedule (portal) are attached to their existing action
+// v2.7 • Reschedules that can't be moved cancel the old action (items released)
+// v2.6 • Bookings from accounts with an open payment dispute are flagged (booking_blocked_dispute)
+// v2.5 • Slot capacity: over-capacity bookings flagged (slot_over_capacity event + staff alert)
+// v2.4 • No-shows: invitee_no_show.created/deleted (action → no_show, items reverted, customer count)
+// v2.3 • service_type derived from event type + invitee answers (pickup, delivery, exchange)
+// v2.2 • Cancellations release items (pickup → home, delivery → stored) like booking-cancel
+// v2.1 • Reschedules move the existing action (items, status, address preserved)
 // v2.0 • Schedule-first booking flow with robust logging
 //
 // Handles:
 // - invitee.created: Create/update action in pending_items state
-// - invitee.canceled: Mark action as canceled
+//   (or, when old_invitee is set, move the rescheduled action to the new slot;
+//   events booked by booking-reschedule are attached to the action they were booked for)
+//   Over-capacity slots are accepted but flagged for staff
+// - invitee.canceled: Mark action as canceled and revert its items
+//   (refused for in_progress/completed; confirmed cancellations are flagged for review)
+//   (skipped when rescheduled=true; the matching invitee.created moves the action,
+//   or cancels it if the move can't be applied)
+// - invitee_no_show.created: Mark action as no_show, revert its items, bump customer no_show_count
+// - invitee_no_show.deleted: Undo the customer no_show_count bump (action stays no_show for staff review,
+//   no_show_cleared_at set so redeliveries don't decrement again; a later .created re-applies the bump)
 //
 // NOTE: This function uses the Supabase service-role key (bypasses RLS).
 // Signature verification is REQUIRED before processing any webhook event.
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getSlotCapacity, getSlotUsage, type SlotCapacity, type SlotUsage } from '../_shared/slotCapacity.ts'
+import { createStaffAlert } from '../_shared/staffAlerts.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -17,6 +39,99 @@ const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 const calendlySigningKey = Deno.env.get('CALENDLY_WEBHOOK_SIGNING_KEY')
 const MAX_CLOCK_SKEW_SECONDS = 5 * 60 // 5 minutes
 
+type ServiceType = 'pickup' | 'delivery' | 'exchange'
+
+// Fallback when neither the event type nor the invitee answers identify the service
+const DEFAULT_SERVICE_TYPE: ServiceType = 'pickup'
+
+// Calendly event type URI → service_type
+// Configured via CALENDLY_EVENT_TYPE_SERVICE_TYPES (JSON object), e.g.
+// {"https://api.calendly.com/event_types/AAA": "pickup", "https://api.calendly.com/event_types/BBB": "exchange"}
+const EVENT_TYPE_SERVICE_TYPES = parseEventTypeServiceTypes(Deno.env.get('CALENDLY_EVENT_TYPE_SERVICE_TYPES'))
+
+// Only answers to questions matching this are read for the service type
+const SERVICE_TYPE_QUESTION_PATTERN = /service|pick\s*-?\s*up|deliver/i
+
+// tracking.utm_source on invitees booked by booking-reschedule (keep in sync with _shared/calendly.ts)
+const PORTAL_TRACKING_SOURCE = 'storage_valet_portal'
+
+// States an action can be moved out of by a Calendly reschedule
+const RESCHEDULABLE_STATES = ['pending_items', 'pending_confirmation', 'confirmed']
+
+// States that can be marked as a no-show (any non-terminal state)
+const NO_SHOW_ELIGIBLE_STATES = ['pending_items', 'pending_confirmation', 'confirmed', 'in_progress']
+
+// States a Calendly cancellation must not touch (service underway or done)
+const CALENDLY_UNCANCELABLE_STATES = ['in_progress', 'completed']
+
+// States a Calendly cancellation is applied from (checked again in the update, so a visit that
+// starts while the webhook is processed isn't canceled)
+const CALENDLY_CANCELABLE_STATES = ['pending_items', 'pending_confirmation', 'confirmed']
+
+// States where a Calendly cancellation is applied but flagged for ops review
+const CALENDLY_FLAGGED_CANCEL_STATES = ['confirmed']
+
+// Over-capacity bookings are still accepted (Calendly already confirmed them to the customer),
+// but get a slot_over_capacity booking event and a staff alert so ops can rebalance
+async function flagIfOverCapacity(
+  supabase: any,
+  params: { actionId: string; startTime: string; endTime: string; itemCount: number }
+) {
+  const { actionId, startTime, endTime, itemCount } = params
+  const start = new Date(startTime)
+  const end = new Date(endTime)
+
+  let capacity: SlotCapacity
+  let usage: SlotUsage
+  try {
+    capacity = await getSlotCapacity(supabase, start)
+    usage = await getSlotUsage(supabase, start, end, actionId)
+  } catch (capacityError) {
+    // Never fail the webhook over a capacity lookup
+    console.error('⚠️ Slot capacity check failed:', capacityError)
+    return
+  }
+
+  const bookings = usage.bookings + 1
+  const items = usage.items + itemCount
+  const overVans = bookings > capacity.vans
+  const overItems = capacity.maxItems !== null && items > capacity.maxItems
+  if (!overVans && !overItems) {
+    console.log(`  - Slot capacity OK: ${bookings}/${capacity.vans} bookings, ${items}/${capacity.maxItems ?? '∞'} items`)
+    return
+  }
+
+  console.warn(`⚠️ Slot over capacity: ${bookings}/${capacity.vans} bookings, ${items}/${capacity.maxItems ?? '∞'} items`)
+
+  const metadata = {
+    source: 'calendly_webhook',
+    scheduled_start: startTime,
+    scheduled_end: endTime,
+    bookings,
+    vans: capacity.vans,
+    items,
+    max_items: capacity.maxItems,
+    over_vans: overVans,
+    over_items: overItems,
+    slot_capacity_id: capacity.ruleId
+  }
+
+  await supabase.rpc('log_booking_event', {
+    p_action_id: actionId,
+    p_event_type: 'slot_over_capacity',
+    p_metadata: metadata
+  })
+
+  await createStaffAlert(supabase, {
+    alert_type: 'slot_over_capacity',
+    action_id: actionId,
+    message: overVans
+      ? `Slot at ${startTime} has ${bookings} bookings for ${capacity.vans} van(s)`
+      : `Slot at ${startTime} has ${items} items (limit ${capacity.maxItems})`,
+    metadata
+  })
+}
+
 function parseCalendlySignatureHeader(headerValue: string): { t: string; v1: string } | null {
   // Expected format: "t=1700000000,v1=<hex>" (per Calendly docs/examples)
   const parts = headerValue.split(',').map((p) => p.trim())
@@ -89,6 +204,67 @@ async function verifyCalendlySignature(req: Request, rawBody: string): Promise<{
   return { ok: true }
 }
 
+function isServiceType(value: unknown): value is ServiceType {
+  return value === 'pickup' || value === 'delivery' || value === 'exchange'
+}
+
+function parseEventTypeServiceTypes(raw: string | undefined): Record<string, ServiceType> {
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw)
+    const mapping: Record<string, ServiceType> = {}
+    for (const [eventTypeUri, serviceType] of Object.entries(parsed ?? {})) {
+      if (isServiceType(serviceType)) {
+        mapping[eventTypeUri] = serviceType
+      } else {
+        console.error(`Ignoring invalid service_type for ${eventTypeUri}: ${serviceType}`)
+      }
+    }
+    return mapping
+  } catch (error) {
+    console.error('Invalid CALENDLY_EVENT_TYPE_SERVICE_TYPES (expected JSON object):', error)
+    return {}
+  }
+}
+
+// Map a free-text invitee answer to a service type ("Pickup", "Delivery", "Both", "Pickup and delivery")
+function serviceTypeFromAnswer(answer: string): ServiceType | null {
+  const wantsExchange = /\b(both|exchange|swap)\b/i.test(answer)
+  const wantsPickup = /pick\s*-?\s*up/i.test(answer)
+  const wantsDelivery = /deliver/i.test(answer)
+  if (wantsExchange || (wantsPickup && wantsDelivery)) return 'exchange'
+  if (wantsDelivery) return 'delivery'
+  if (wantsPickup) return 'pickup'
+  return null
+}
+
+// Determine service_type for a booking
+// Precedence: invitee answer (explicit customer choice) → event type mapping → default
+function deriveServiceType(payload: any): { serviceType: ServiceType; source: 'answer' | 'event_type' | 'default' } {
+  const answers: any[] = Array.isArray(payload.questions_and_answers) ? payload.questions_and_answers : []
+  for (const qa of answers) {
+    if (typeof qa?.question !== 'string' || typeof qa?.answer !== 'string') continue
+    if (!SERVICE_TYPE_QUESTION_PATTERN.test(qa.question)) continue
+    const fromAnswer = serviceTypeFromAnswer(qa.answer)
+    if (fromAnswer) return { serviceType: fromAnswer, source: 'answer' }
+  }
+
+  const eventTypeUri = payload.scheduled_event?.event_type
+  if (eventTypeUri && EVENT_TYPE_SERVICE_TYPES[eventTypeUri]) {
+    return { serviceType: EVENT_TYPE_SERVICE_TYPES[eventTypeUri], source: 'event_type' }
+  }
+
+  return { serviceType: DEFAULT_SERVICE_TYPE, source: 'default' }
+}
+
+// Derive the scheduled_event URI from an invitee URI
+// Invitee URIs look like: https://api.calendly.com/scheduled_events/<event_uuid>/invitees/<invitee_uuid>
+function scheduledEventUriFromInviteeUri(inviteeUri: string): string | null {
+  const idx = inviteeUri.indexOf('/invitees/')
+  if (idx <= 0) return null
+  return inviteeUri.substring(0, idx)
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -147,6 +323,14 @@ serve(async (req) => {
         console.log('→ Routing to handleInviteeCanceled')
         await handleInviteeCanceled(supabase, event)
         break
+      case 'invitee_no_show.created':
+        console.log('→ Routing to handleNoShowCreated')
+        await handleNoShowCreated(supabase, event)
+        break
+      case 'invitee_no_show.deleted':
+        console.log('→ Routing to handleNoShowDeleted')
+        await handleNoShowDeleted(supabase, event)
+        break
       default:
         console.log(`⚠️ Unhandled Calendly event type: ${eventType}`)
     }
@@ -214,7 +398,7 @@ async function handleInviteeCreated(supabase: any, event: any) {
   console.log(`Looking up customer_profile for email: "${inviteeEmail}"`)
   const { data: profile, error: profileError } = await supabase
     .from('customer_profile')
-    .select('user_id, delivery_address, email')
+    .select('user_id, delivery_address, email, dispute_open')
     .ilike('email', inviteeEmail)
     .single()
 
@@ -305,10 +489,50 @@ async function handleInviteeCreated(supabase: any, event: any) {
           reason: 'no_auth_user'
         }
       })
+      if (payload.old_invitee) {
+        await releaseUnmovedReschedule(supabase, payload.old_invitee, eventUri)
+      }
+      return
+    }
+  }
+
+  // Portal reschedule: booking-reschedule booked this event for an existing action (tracking.utm_content)
+  if (payload.tracking?.utm_source === PORTAL_TRACKING_SOURCE && payload.tracking?.utm_content) {
+    await linkPortalScheduledEvent(supabase, {
+      userId: userId!,
+      actionId: payload.tracking.utm_content,
+      eventUri,
+      payload,
+    })
+    console.log('───────────────────────────────────────────────────────────')
+    return
+  }
+
+  // Reschedule: Calendly links the new invitee to the one it replaces via old_invitee.
+  // Move the existing action instead of creating a fresh pending_items booking.
+  const oldInviteeUri = payload.old_invitee
+  if (oldInviteeUri) {
+    console.log('Reschedule detected, old_invitee:', oldInviteeUri)
+    const moved = await moveRescheduledAction(supabase, {
+      userId: userId!,
+      oldInviteeUri,
+      eventUri,
+      startTime,
+      endTime,
+      payload,
+    })
+    if (moved) {
+      console.log('───────────────────────────────────────────────────────────')
       return
     }
+    console.log('  - No reschedulable action found, creating new booking')
+    // invitee.canceled (rescheduled=true) left the old action alone, so close it out here
+    await releaseUnmovedReschedule(supabase, oldInviteeUri, eventUri)
   }
 
+  const { serviceType, source: serviceTypeSource } = deriveServiceType(payload)
+  console.log(`  - serviceType: ${serviceType} (from ${serviceTypeSource})`)
+
   // Upsert action (idempotent via calendly_event_uri unique constraint)
   console.log('Upserting action to database...')
   const { data: action, error: actionError } = await supabase
@@ -316,7 +540,7 @@ async function handleInviteeCreated(supabase: any, event: any) {
     .upsert(
       {
         user_id: userId,
-        service_type: 'pickup',  // Default to pickup for schedule-first bookings
+        service_type: serviceType,
         calendly_event_uri: eventUri,
         scheduled_start: startTime,
         scheduled_end: endTime,
@@ -343,11 +567,32 @@ async function handleInviteeCreated(supabase: any, event: any) {
     p_metadata: {
       source: 'calendly_webhook',
       event_uri: eventUri,
-      invitee_email: inviteeEmail
+      invitee_email: inviteeEmail,
+      service_type: serviceType,
+      service_type_source: serviceTypeSource
     }
   })
 
   console.log(`✓ Booking event logged for ${inviteeEmail}`)
+
+  // Open payment dispute: the booking stays in pending_items (update-booking-items refuses
+  // item selection) and staff are alerted to follow up or cancel
+  if (profile?.dispute_open) {
+    console.warn(`⚠️ Booking from account on hold (open dispute): user_id=${userId}`)
+    await supabase.rpc('log_booking_event', {
+      p_action_id: action.id,
+      p_event_type: 'booking_blocked_dispute',
+      p_metadata: { source: 'calendly_webhook', invitee_email: inviteeEmail }
+    })
+    await createStaffAlert(supabase, {
+      alert_type: 'booking_blocked_dispute',
+      action_id: action.id,
+      message: `Booking from ${inviteeEmail} while a payment dispute is open`,
+      metadata: { user_id: userId, invitee_email: inviteeEmail }
+    })
+  }
+
+  await flagIfOverCapacity(supabase, { actionId: action.id, startTime, endTime, itemCount: 0 })
   console.log('───────────────────────────────────────────────────────────')
 }
 
@@ -366,11 +611,33 @@ async function handleInviteeCanceled(supabase: any, event: any) {
     return
   }
 
+  // Reschedule: the old slot is canceled with rescheduled=true and a new invitee.created follows.
+  // Leave the action (and its items) untouched so the created event can move it
+  // (invitee.created cancels the old action itself when the move fails).
+  if (payload.rescheduled === true) {
+    console.log('  - rescheduled=true, new_invitee:', payload.new_invitee)
+    console.log('✓ Skipping cancellation (action will be moved by invitee.created)')
+    console.log('───────────────────────────────────────────────────────────')
+    return
+  }
+
+  await cancelActionForEvent(supabase, eventUri, payload, {})
+  console.log('───────────────────────────────────────────────────────────')
+}
+
+// Cancel the action on a Calendly event and release its items
+// (shared by invitee.canceled and by reschedules whose invitee.created could not move the action)
+async function cancelActionForEvent(
+  supabase: any,
+  eventUri: string,
+  payload: any,
+  extraMetadata: Record<string, unknown>
+) {
   // Find action by calendly_event_uri
   console.log(`Looking up action for eventUri: "${eventUri}"`)
   const { data: action, error: findError } = await supabase
     .from('actions')
-    .select('id, user_id, status')
+    .select('id, user_id, status, pickup_item_ids, delivery_item_ids')
     .eq('calendly_event_uri', eventUri)
     .single()
 
@@ -390,23 +657,61 @@ async function handleInviteeCanceled(supabase: any, event: any) {
 
   console.log(`✓ Found action: action_id=${action.id}, status=${action.status}`)
 
-  // Update action status to canceled
+  // Idempotent: already canceled (e.g. via portal) or closed as a no-show - nothing to release
+  if (action.status === 'canceled' || action.status === 'no_show') {
+    console.log(`✓ Action already ${action.status}, skipping`)
+    return
+  }
+
+  // Refuse: service is underway or done, items have already moved
+  if (CALENDLY_UNCANCELABLE_STATES.includes(action.status)) {
+    console.warn(`⚠️ Refusing Calendly cancellation: action status is '${action.status}'`)
+    await supabase.rpc('log_booking_event', {
+      p_action_id: action.id,
+      p_event_type: 'calendly_cancel_refused',
+      p_metadata: {
+        source: 'calendly_webhook',
+        event_uri: eventUri,
+        status: action.status,
+        ...extraMetadata
+      }
+    })
+    return
+  }
+
+  const flaggedForReview = CALENDLY_FLAGGED_CANCEL_STATES.includes(action.status)
+  if (flaggedForReview) {
+    console.warn(`⚠️ Canceling ${action.status} action via Calendly - flagging for review`)
+  }
+
+  // Update action status to canceled (ATOMIC: only if still cancelable)
   console.log('Updating action status to canceled...')
-  const { error: updateError } = await supabase
+  const { data: canceledAction, error: updateError } = await supabase
     .from('actions')
     .update({
       status: 'canceled',
       updated_at: new Date().toISOString()
     })
     .eq('id', action.id)
+    .in('status', CALENDLY_CANCELABLE_STATES)
+    .select('id')
+    .maybeSingle()
 
   if (updateError) {
     console.error('❌ Failed to cancel action:', updateError)
     throw updateError
   }
 
+  if (!canceledAction) {
+    console.warn(`⚠️ Action ${action.id} changed status during Calendly cancellation, skipping`)
+    return
+  }
+
   console.log('✓ Action status updated to canceled')
 
+  // Release items back to where they were before scheduling
+  const { pickupReleased, deliveryReleased } = await releaseActionItems(supabase, action)
+
   // Log cancellation event
   await supabase.rpc('log_booking_event', {
     p_action_id: action.id,
@@ -414,10 +719,457 @@ async function handleInviteeCanceled(supabase: any, event: any) {
     p_metadata: {
       source: 'calendly_webhook',
       event_uri: eventUri,
-      previous_status: action.status
+      previous_status: action.status,
+      pickup_items_reverted: pickupReleased,
+      delivery_items_reverted: deliveryReleased,
+      items_released: pickupReleased + deliveryReleased,
+      flagged_for_review: flaggedForReview,
+      ...extraMetadata
     }
   })
 
   console.log(`✓ Cancellation logged: action_id=${action.id}`)
+}
+
+// Handle invitee_no_show.created event (host marked the invitee as a no-show in Calendly)
+async function handleNoShowCreated(supabase: any, event: any) {
+  const payload = event.payload
+  console.log('───────────────────────────────────────────────────────────')
+  console.log('handleNoShowCreated: Processing no-show')
+
+  const action = await findActionForNoShow(supabase, payload)
+  if (!action) return
+
+  console.log(`✓ Found action: action_id=${action.id}, status=${action.status}`)
+
+  if (action.status === 'no_show') {
+    await reapplyClearedNoShow(supabase, action, payload)
+    console.log('───────────────────────────────────────────────────────────')
+    return
+  }
+
+  if (!NO_SHOW_ELIGIBLE_STATES.includes(action.status)) {
+    console.warn(`⚠️ Ignoring no-show: action status is '${action.status}'`)
+    await supabase.rpc('log_booking_event', {
+      p_action_id: action.id,
+      p_event_type: 'calendly_no_show_ignored',
+      p_metadata: {
+        source: 'calendly_webhook',
+        no_show_uri: payload.uri,
+        status: action.status
+      }
+    })
+    console.log('───────────────────────────────────────────────────────────')
+    return
+  }
+
+  // Mark action as no_show (ATOMIC: only if still eligible)
+  const { data: updated, error: updateError } = await supabase
+    .from('actions')
+    .update({
+      status: 'no_show',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', action.id)
+    .in('status', NO_SHOW_ELIGIBLE_STATES)
+    .select('id')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('❌ Failed to mark action as no_show:', updateError)
+    throw updateError
+  }
+
+  if (!updated) {
+    console.log('✓ Action status changed concurrently, skipping')
+    console.log('───────────────────────────────────────────────────────────')
+    return
+  }
+
+  const { pickupReleased, deliveryReleased } = await releaseActionItems(supabase, action)
+  const noShowCount = await adjustNoShowCount(supabase, action.user_id, 1)
+
+  await supabase.rpc('log_booking_event', {
+    p_action_id: action.id,
+    p_event_type: 'no_show',
+    p_metadata: {
+      source: 'calendly_webhook',
+      no_show_uri: payload.uri,
+      previous_status: action.status,
+      pickup_items_reverted: pickupReleased,
+      delivery_items_reverted: deliveryReleased,
+      customer_no_show_count: noShowCount
+    }
+  })
+
+  console.log(`✓ No-show recorded: action_id=${action.id}`)
+  console.log('───────────────────────────────────────────────────────────')
+}
+
+// Handle invitee_no_show.deleted event (host unmarked the no-show)
+// no_show is terminal and items were already released, so only the customer count is undone
+async function handleNoShowDeleted(supabase: any, event: any) {
+  const payload = event.payload
+  console.log('───────────────────────────────────────────────────────────')
+  console.log('handleNoShowDeleted: Processing no-show removal')
+
+  const action = await findActionForNoShow(supabase, payload)
+  if (!action) return
+
+  if (action.status !== 'no_show') {
+    console.log(`✓ Action status is '${action.status}', nothing to undo`)
+    console.log('───────────────────────────────────────────────────────────')
+    return
+  }
+
+  // Claim the undo (ATOMIC: only the first delivery finds no_show_cleared_at unset)
+  const { data: cleared, error: clearError } = await supabase
+    .from('actions')
+    .update({ no_show_cleared_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', action.id)
+    .eq('status', 'no_show')
+    .is('no_show_cleared_at', null)
+    .select('id')
+    .maybeSingle()
+
+  if (clearError) {
+    console.error('❌ Failed to mark no-show as cleared:', clearError)
+    throw clearError
+  }
+
+  if (!cleared) {
+    console.log('✓ No-show already cleared, skipping')
+    console.log('───────────────────────────────────────────────────────────')
+    return
+  }
+
+  const noShowCount = await adjustNoShowCount(supabase, action.user_id, -1)
+
+  await supabase.rpc('log_booking_event', {
+    p_action_id: action.id,
+    p_event_type: 'no_show_cleared',
+    p_metadata: {
+      source: 'calendly_webhook',
+      no_show_uri: payload.uri,
+      customer_no_show_count: noShowCount,
+      requires_staff_review: true
+    }
+  })
+
+  console.log(`✓ No-show cleared: action_id=${action.id} (status left as no_show for staff review)`)
   console.log('───────────────────────────────────────────────────────────')
 }
+
+// A no-show marked again after invitee_no_show.deleted: restore the count the deletion undid
+// (ATOMIC: only one delivery finds no_show_cleared_at set)
+async function reapplyClearedNoShow(
+  supabase: any,
+  action: { id: string; user_id: string },
+  payload: any
+) {
+  const { data: reapplied, error: reapplyError } = await supabase
+    .from('actions')
+    .update({ no_show_cleared_at: null, updated_at: new Date().toISOString() })
+    .eq('id', action.id)
+    .eq('status', 'no_show')
+    .not('no_show_cleared_at', 'is', null)
+    .select('id')
+    .maybeSingle()
+
+  if (reapplyError) {
+    console.error('❌ Failed to re-apply no-show:', reapplyError)
+    throw reapplyError
+  }
+
+  if (!reapplied) {
+    console.log('✓ Action already marked no_show, skipping')
+    return
+  }
+
+  const noShowCount = await adjustNoShowCount(supabase, action.user_id, 1)
+
+  await supabase.rpc('log_booking_event', {
+    p_action_id: action.id,
+    p_event_type: 'no_show',
+    p_metadata: {
+      source: 'calendly_webhook',
+      no_show_uri: payload.uri,
+      previous_status: 'no_show',
+      reapplied: true,
+      customer_no_show_count: noShowCount
+    }
+  })
+
+  console.log(`✓ No-show re-applied: action_id=${action.id}`)
+}
+
+// Resolve the action a no-show payload refers to (payload.invitee is the invitee URI)
+async function findActionForNoShow(supabase: any, payload: any) {
+  const inviteeUri = payload.invitee
+  const eventUri = inviteeUri ? scheduledEventUriFromInviteeUri(inviteeUri) : null
+  console.log('  - inviteeUri:', inviteeUri)
+  console.log('  - eventUri:', eventUri)
+
+  if (!eventUri) {
+    console.error('❌ Missing or invalid invitee URI in no-show payload')
+    return null
+  }
+
+  const { data: action, error: findError } = await supabase
+    .from('actions')
+    .select('id, user_id, status, pickup_item_ids, delivery_item_ids')
+    .eq('calendly_event_uri', eventUri)
+    .maybeSingle()
+
+  if (findError || !action) {
+    console.warn(`⚠️ No action found for Calendly event: ${eventUri}`)
+    await supabase.rpc('log_booking_event', {
+      p_action_id: null,
+      p_event_type: 'calendly_orphan_no_show',
+      p_metadata: {
+        event_uri: eventUri,
+        payload: payload
+      }
+    })
+    return null
+  }
+
+  return action
+}
+
+// Adjust customer_profile.no_show_count by delta (never below 0); returns the new count
+// Atomic in the database (adjust_no_show_count), so concurrent no-shows can't lose an update
+async function adjustNoShowCount(supabase: any, userId: string, delta: number): Promise<number | null> {
+  const { data: nextCount, error: countError } = await supabase
+    .rpc('adjust_no_show_count', { p_user_id: userId, p_delta: delta })
+
+  if (countError) {
+    console.error('❌ Failed to update no_show_count:', countError)
+    return null
+  }
+
+  console.log(`✓ no_show_count for ${userId}: ${nextCount}`)
+  return nextCount
+}
+
+// Revert an action's items: pickup → 'home', delivery → 'stored' (mirrors booking-cancel)
+// Returns how many items were actually released; failures are logged, not thrown
+async function releaseActionItems(
+  supabase: any,
+  action: { id: string; user_id: string; pickup_item_ids: string[] | null; delivery_item_ids: string[] | null }
+): Promise<{ pickupReleased: number; deliveryReleased: number }> {
+  const pickupItemIds = action.pickup_item_ids || []
+  const deliveryItemIds = action.delivery_item_ids || []
+  const now = new Date().toISOString()
+  let pickupReleased = 0
+  let deliveryReleased = 0
+
+  if (pickupItemIds.length > 0) {
+    const { data: reverted, error: pickupRevertError } = await supabase
+      .from('items')
+      .update({ status: 'home', updated_at: now })
+      .in('id', pickupItemIds)
+      .eq('user_id', action.user_id)
+      .select('id')
+
+    if (pickupRevertError) {
+      console.error('❌ Failed to revert pickup items:', pickupRevertError)
+    } else {
+      pickupReleased = reverted?.length || 0
+      console.log(`✓ Reverted ${pickupReleased} pickup items to 'home'`)
+    }
+  }
+
+  if (deliveryItemIds.length > 0) {
+    const { data: reverted, error: deliveryRevertError } = await supabase
+      .from('items')
+      .update({ status: 'stored', updated_at: now })
+      .in('id', deliveryItemIds)
+      .eq('user_id', action.user_id)
+      .select('id')
+
+    if (deliveryRevertError) {
+      console.error('❌ Failed to revert delivery items:', deliveryRevertError)
+    } else {
+      deliveryReleased = reverted?.length || 0
+      console.log(`✓ Reverted ${deliveryReleased} delivery items to 'stored'`)
+    }
+  }
+
+  return { pickupReleased, deliveryReleased }
+}
+
+// Point an action at the Calendly event booking-reschedule booked for it
+// Usually a no-op (booking-reschedule stores the URI itself); covers the webhook arriving first.
+// Never creates a booking: the portal already holds the action for this slot.
+async function linkPortalScheduledEvent(
+  supabase: any,
+  params: { userId: string; actionId: string; eventUri: string; payload: any }
+) {
+  const { userId, actionId, eventUri, payload } = params
+
+  const { data: action, error: findError } = await supabase
+    .from('actions')
+    .select('id, user_id, status, calendly_event_uri')
+    .eq('id', actionId)
+    .maybeSingle()
+
+  if (findError || !action || action.user_id !== userId || !RESCHEDULABLE_STATES.includes(action.status)) {
+    console.warn(`⚠️ Portal-booked event ${eventUri} has no matching open action (${actionId})`)
+    await supabase.rpc('log_booking_event', {
+      p_action_id: null,
+      p_event_type: 'calendly_portal_event_unmatched',
+      p_metadata: { event_uri: eventUri, action_id: actionId, user_id: userId }
+    })
+    return
+  }
+
+  if (action.calendly_event_uri === eventUri) {
+    console.log(`✓ Portal-booked event already on action ${action.id}`)
+    return
+  }
+
+  const { error: linkError } = await supabase
+    .from('actions')
+    .update({
+      calendly_event_uri: eventUri,
+      calendly_payload: payload,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', action.id)
+
+  if (linkError) {
+    console.error('❌ Failed to link portal-booked event:', linkError)
+    throw linkError
+  }
+
+  console.log(`✓ Portal-booked event linked to action ${action.id}`)
+  await supabase.rpc('log_booking_event', {
+    p_action_id: action.id,
+    p_event_type: 'calendly_portal_event_linked',
+    p_metadata: { source: 'calendly_webhook', event_uri: eventUri, previous_event_uri: action.calendly_event_uri }
+  })
+}
+
+// Cancel the action left on the old slot when a reschedule could not be applied as a move
+// (the old Calendly event is already canceled, so its items must not stay 'scheduled')
+async function releaseUnmovedReschedule(supabase: any, oldInviteeUri: string, newEventUri: string) {
+  const oldEventUri = scheduledEventUriFromInviteeUri(oldInviteeUri)
+  if (!oldEventUri) return
+
+  console.log(`Canceling un-moved rescheduled action for eventUri: "${oldEventUri}"`)
+  await cancelActionForEvent(
+    supabase,
+    oldEventUri,
+    { old_invitee: oldInviteeUri, new_event_uri: newEventUri },
+    { rescheduled: true, reschedule_not_applied: true, new_event_uri: newEventUri }
+  )
+}
+
+// Move an existing action to a rescheduled Calendly slot
+// Returns true if the reschedule was applied (or already applied), false to fall back to a new booking
+async function moveRescheduledAction(
+  supabase: any,
+  params: {
+    userId: string
+    oldInviteeUri: string
+    eventUri: string
+    startTime: string
+    endTime: string
+    payload: any
+  }
+): Promise<boolean> {
+  const { userId, oldInviteeUri, eventUri, startTime, endTime, payload } = params
+
+  // Idempotency: a redelivered invitee.created finds the action already on the new event URI
+  const { data: existing } = await supabase
+    .from('actions')
+    .select('id')
+    .eq('calendly_event_uri', eventUri)
+    .maybeSingle()
+
+  if (existing) {
+    console.log(`✓ Reschedule already applied: action_id=${existing.id}`)
+    return true
+  }
+
+  const oldEventUri = scheduledEventUriFromInviteeUri(oldInviteeUri)
+  if (!oldEventUri) {
+    console.warn(`⚠️ Could not derive scheduled event URI from old_invitee: ${oldInviteeUri}`)
+    return false
+  }
+
+  console.log(`Looking up rescheduled action for eventUri: "${oldEventUri}"`)
+  const { data: oldAction, error: findError } = await supabase
+    .from('actions')
+    .select('id, user_id, status, scheduled_start, scheduled_end, pickup_item_ids, delivery_item_ids')
+    .eq('calendly_event_uri', oldEventUri)
+    .maybeSingle()
+
+  if (findError || !oldAction) {
+    console.warn(`⚠️ No action found for rescheduled Calendly event: ${oldEventUri}`)
+    return false
+  }
+
+  if (oldAction.user_id !== userId) {
+    console.error(`❌ Reschedule ownership mismatch: action belongs to ${oldAction.user_id}, invitee resolves to ${userId}`)
+    return false
+  }
+
+  if (!RESCHEDULABLE_STATES.includes(oldAction.status)) {
+    console.warn(`⚠️ Action ${oldAction.id} is '${oldAction.status}', not reschedulable`)
+    return false
+  }
+
+  // Only the slot moves: item selection, status and service_address stay on the action
+  // (ATOMIC: only if still reschedulable)
+  const { data: movedAction, error: moveError } = await supabase
+    .from('actions')
+    .update({
+      calendly_event_uri: eventUri,
+      scheduled_start: startTime,
+      scheduled_end: endTime,
+      calendly_payload: payload,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', oldAction.id)
+    .in('status', RESCHEDULABLE_STATES)
+    .select('id')
+    .maybeSingle()
+
+  if (moveError) {
+    console.error('❌ Failed to move rescheduled action:', moveError)
+    throw moveError
+  }
+
+  if (!movedAction) {
+    console.warn(`⚠️ Action ${oldAction.id} changed status during reschedule, not moving it`)
+    return false
+  }
+
+  console.log(`✓ Action ${oldAction.id} moved to ${startTime} – ${endTime}`)
+
+  await supabase.rpc('log_booking_event', {
+    p_action_id: oldAction.id,
+    p_event_type: 'calendly_booking_rescheduled',
+    p_metadata: {
+      source: 'calendly_webhook',
+      previous_event_uri: oldEventUri,
+      event_uri: eventUri,
+      previous_start: oldAction.scheduled_start,
+      previous_end: oldAction.scheduled_end,
+      new_start: startTime,
+      new_end: endTime,
+      status: oldAction.status
+    }
+  })
+
+  await flagIfOverCapacity(supabase, {
+    actionId: oldAction.id,
+    startTime,
+    endTime,
+    itemCount: (oldAction.pickup_item_ids || []).length + (oldAction.delivery_item_ids || []).length
+  })
+
+  return true
+}
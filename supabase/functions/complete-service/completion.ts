@@ -0,0 +1,119 @@
+// Storage Valet — complete-service follow-up once the action is marked completed (separate from
+// index.ts so it can be tested with a fake Supabase client)
+// Booking events, completion emails and the first-pickup subscription start. Nothing here fails
+// the request: the visit is already recorded as completed.
+
+export type SubscriptionStartResult = 'started' | 'queued' | 'already_requested' | 'failed'
+
+export interface CompletedVisit {
+  actionId: string
+  userId: string
+  completedBy: string
+  customer: {
+    email: string | null
+    first_name: string | null
+    setup_fee_paid: boolean | null
+    subscription_id: string | null
+    billing_version: string | null
+    stripe_customer_id: string | null
+  } | null
+  pickupItemsUpdated: number
+  deliveryItemsUpdated: number
+  missingPickupIds: string[]
+  missingDeliveryIds: string[]
+  declaredValueMissing: number
+  // service_completed event metadata
+  completionMetadata: Record<string, unknown>
+}
+
+export interface CompletionFollowUpDeps {
+  // Fire-and-forget; must not throw
+  sendEmail(
+    type: 'pickup_complete' | 'delivery_complete',
+    to: string,
+    data: { firstName?: string; itemCount?: number }
+  ): Promise<void>
+  // Must not throw
+  startSubscription(params: {
+    userId: string
+    actionId: string
+    stripeCustomerId: string | null
+    startedBy: string
+  }): Promise<SubscriptionStartResult>
+}
+
+// Returns the subscription start outcome (null when this visit doesn't start one)
+export async function followUpCompletion(
+  supabase: any,
+  deps: CompletionFollowUpDeps,
+  visit: CompletedVisit
+): Promise<SubscriptionStartResult | null> {
+  const { actionId, customer } = visit
+
+  const { error: completedEventError } = await supabase.rpc('log_booking_event', {
+    p_action_id: actionId,
+    p_event_type: 'service_completed',
+    p_metadata: visit.completionMetadata
+  })
+
+  if (completedEventError) {
+    console.error('Failed to log booking event:', completedEventError)
+  }
+
+  const missingIds = [...visit.missingPickupIds, ...visit.missingDeliveryIds]
+  if (missingIds.length > 0) {
+    const { error: missingEventError } = await supabase.rpc('log_booking_event', {
+      p_action_id: actionId,
+      p_event_type: 'items_missing',
+      p_metadata: {
+        item_ids: missingIds,
+        pickup_item_ids: visit.missingPickupIds,
+        delivery_item_ids: visit.missingDeliveryIds,
+        declared_value_missing: visit.declaredValueMissing,
+        reported_by: visit.completedBy
+      }
+    })
+
+    if (missingEventError) {
+      console.error('Failed to log items_missing event:', missingEventError)
+    }
+    console.log(`Flagged ${missingIds.length} items as missing for action ${actionId}`)
+  }
+
+  // Send service completion email (non-blocking)
+  if (customer?.email) {
+    // Exchange visits send both emails, each with its own item count
+    // (no email for a side where every item was skipped or missing)
+    if (visit.pickupItemsUpdated > 0) {
+      deps.sendEmail('pickup_complete', customer.email, {
+        firstName: customer.first_name || undefined,
+        itemCount: visit.pickupItemsUpdated,
+      })
+    }
+    if (visit.deliveryItemsUpdated > 0) {
+      deps.sendEmail('delivery_complete', customer.email, {
+        firstName: customer.first_name || undefined,
+        itemCount: visit.deliveryItemsUpdated,
+      })
+    }
+  } else {
+    console.log(`No customer email found for user ${visit.userId}, skipping service email`)
+  }
+
+  // First successful pickup for a v1 setup-fee customer without a subscription starts billing
+  if (
+    visit.pickupItemsUpdated > 0 &&
+    customer?.setup_fee_paid &&
+    !customer.subscription_id &&
+    !customer.billing_version
+  ) {
+    return await deps.startSubscription({
+      userId: visit.userId,
+      actionId,
+      stripeCustomerId: customer.stripe_customer_id || null,
+      startedBy: visit.completedBy
+    })
+  }
+
+  return null
+}
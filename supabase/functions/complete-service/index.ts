@@ -1,11 +1,41 @@
 // Storage Valet — Complete Service Edge Function
+// v2.14 • Booking events after completion are awaited (rpc builders have no .catch); follow-up in completion.ts
+// v2.13 • Subscription start claims the customer's request row and shares creation with approve-subscription-start
+// v2.12 • Coverage check counts stored items booked for delivery (shared _shared/coverage.ts)
+// v2.11 • Missing items get their own status; pickup/delivery emails only when items moved
+// v2.10 • First pickup for a setup-fee customer starts the monthly subscription (or queues it for approval)
+// v2.9 • Delivered items clear their warehouse location (history recorded for item-locations)
+// v2.8 • Declared value: enforce plan coverage cap on pickups, record values for claims
+// v2.7 • Proof of service: photo_paths, signature_path, driver_notes stored on the action
+// v2.6 • Partial completion: optional per-item outcomes (done, skipped, missing, damaged)
+// v2.5 • Accept in_progress (set by start-service) as a completable state
+// v2.4 • Exchange bookings: process pickup + delivery items in one visit
 // v2.3 • Atomic completion + fail closed on item errors (fixes race condition, prevents duplicate emails)
 // v2.2 • Added transactional email sending via Resend (pickup_complete, delivery_complete)
 // v2.1 • Fixed staff schema reference (sv.staff not public.staff)
 // Marks pickup or delivery as completed and updates item statuses
+//
+// Body: { "action_id": "uuid", "item_outcomes"?: [{ "item_id": "uuid", "outcome": "done" | "skipped" | "missing" | "damaged" }],
+//        "photo_paths"?: ["storage/path.jpg"], "signature_path"?: "storage/path.png", "driver_notes"?: "text" }
+// Items without an outcome are treated as 'done'. Only 'done' items transition;
+// 'missing' items get the 'missing' status (items_missing event for staff follow-up),
+// skipped/damaged items return to their pre-booking status (pickup → home, delivery → stored)
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'npm:stripe@17'
+import { COVERAGE_CAPS, fetchItemsInStorage } from '../_shared/coverage.ts'
+import { followUpCompletion, type SubscriptionStartResult } from './completion.ts'
+import {
+  claimNewSubscriptionStart,
+  createMonthlySubscription,
+  releaseSubscriptionStart,
+  type SubscriptionStartClaim,
+} from '../_shared/monthlySubscription.ts'
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+})
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -40,6 +70,136 @@ async function sendTransactionalEmail(
   }
 }
 
+// Per-item outcomes staff can report at completion
+const ITEM_OUTCOMES = ['done', 'skipped', 'missing', 'damaged'] as const
+type ItemOutcome = typeof ITEM_OUTCOMES[number]
+
+// Proof-of-service limits
+const MAX_PROOF_PHOTOS = 20
+const MAX_DRIVER_NOTES_LENGTH = 2000
+
+// Storage paths are relative object keys (same shape as items.photo_paths)
+function isValidStoragePath(path: unknown): path is string {
+  return typeof path === 'string' && path.trim().length > 0 && !path.startsWith('/') && !path.includes('..')
+}
+
+// Set status on a batch of items (no-op for an empty batch)
+async function setItemStatus(supabase: any, itemIds: string[], status: 'home' | 'stored' | 'missing') {
+  if (itemIds.length === 0) return { error: null }
+  // Items leaving the warehouse give up their bin (see item-locations)
+  const updates: Record<string, unknown> = { status, updated_at: new Date().toISOString() }
+  if (status === 'home') updates.warehouse_location = null
+  return await supabase
+    .from('items')
+    .update(updates)
+    .in('id', itemIds)
+}
+
+// States from which an action can be completed
+const COMPLETABLE_STATUSES = ['in_progress', 'confirmed', 'pending_confirmation']
+
+// ═══════════════════════════════════════════════════════════════════════
+// SUBSCRIPTION START (v1 setup-fee customers)
+// create-checkout only takes the setup fee; the monthly subscription starts at the first
+// successful pickup. SUBSCRIPTION_START_MODE: 'auto' (default) creates it in Stripe here,
+// 'approval' queues it in subscription_start_requests for approve-subscription-start.
+// customer_profile is updated by stripe-webhook (customer.subscription.created →
+// update_subscription_status), not here.
+// ═══════════════════════════════════════════════════════════════════════
+const SUBSCRIPTION_START_MODE = Deno.env.get('SUBSCRIPTION_START_MODE') === 'approval' ? 'approval' : 'auto'
+
+// Auto-start or queue the subscription; failures fall back to the approval queue.
+// 'already_requested' when the customer already has a request (queued, starting or started).
+// Never throws: the pickup is already complete.
+async function startSubscriptionAfterPickup(
+  supabase: any,
+  params: { userId: string; actionId: string; stripeCustomerId: string | null; startedBy: string }
+): Promise<SubscriptionStartResult> {
+  const { userId, actionId, stripeCustomerId, startedBy } = params
+
+  let queueReason = 'approval_required'
+  if (SUBSCRIPTION_START_MODE === 'auto' && !stripeCustomerId) {
+    queueReason = 'missing_stripe_customer'
+  } else if (SUBSCRIPTION_START_MODE === 'auto') {
+    let claim: SubscriptionStartClaim | null = null
+    try {
+      claim = await claimNewSubscriptionStart(supabase, { userId, actionId, stripeCustomerId: stripeCustomerId! })
+      if (!claim) {
+        console.log(`Subscription start for user ${userId} already requested, skipping`)
+        return 'already_requested'
+      }
+
+      const subscription = await createMonthlySubscription(stripe, supabase, claim, stripeCustomerId!)
+
+      const { error: startedError } = await supabase
+        .from('subscription_start_requests')
+        .update({ status: 'started', subscription_id: subscription.id, decided_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('status', 'starting')
+
+      if (startedError) {
+        // Subscription exists in Stripe; a retry finds it there instead of creating another
+        console.error(`Failed to mark subscription start done for user ${userId}:`, startedError)
+      }
+
+      await supabase.rpc('log_booking_event', {
+        p_action_id: actionId,
+        p_event_type: 'subscription_auto_started',
+        p_metadata: {
+          subscription_id: subscription.id,
+          subscription_status: subscription.status,
+          collection_method: subscription.collection_method,
+          started_by: startedBy
+        }
+      })
+
+      console.log(`Started subscription ${subscription.id} (${subscription.collection_method}) for user ${userId} after first pickup`)
+      return 'started'
+    } catch (error) {
+      console.error(`Failed to start subscription for user ${userId}:`, error)
+      queueReason = `auto_start_failed: ${error.message || error}`
+      if (claim) {
+        // The claimed row becomes the admin's queued request
+        await releaseSubscriptionStart(supabase, userId, queueReason)
+        await supabase.rpc('log_booking_event', {
+          p_action_id: actionId,
+          p_event_type: 'subscription_start_queued',
+          p_metadata: { reason: queueReason, mode: SUBSCRIPTION_START_MODE }
+        })
+        return 'queued'
+      }
+    }
+  }
+
+  // Queue for an admin (one request per customer)
+  const { error: queueError } = await supabase
+    .from('subscription_start_requests')
+    .upsert(
+      {
+        user_id: userId,
+        action_id: actionId,
+        stripe_customer_id: stripeCustomerId,
+        status: 'pending',
+        reason: queueReason,
+      },
+      { onConflict: 'user_id', ignoreDuplicates: true }
+    )
+
+  if (queueError) {
+    console.error(`Failed to queue subscription start for user ${userId}:`, queueError)
+    return 'failed'
+  }
+
+  await supabase.rpc('log_booking_event', {
+    p_action_id: actionId,
+    p_event_type: 'subscription_start_queued',
+    p_metadata: { reason: queueReason, mode: SUBSCRIPTION_START_MODE }
+  })
+
+  console.log(`Queued subscription start for user ${userId} (${queueReason})`)
+  return 'queued'
+}
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -121,7 +281,7 @@ serve(async (req) => {
       })
     }
 
-    const { action_id } = body
+    const { action_id, item_outcomes, photo_paths, signature_path, driver_notes } = body
     if (!action_id) {
       return new Response(JSON.stringify({ error: 'action_id required' }), {
         status: 400,
@@ -129,6 +289,61 @@ serve(async (req) => {
       })
     }
 
+    if (item_outcomes !== undefined && !Array.isArray(item_outcomes)) {
+      return new Response(JSON.stringify({ error: 'item_outcomes must be an array' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Index reported outcomes by item id (validated against the action below)
+    const reportedOutcomes = new Map<string, ItemOutcome>()
+    for (const entry of (item_outcomes || [])) {
+      if (!entry?.item_id || !ITEM_OUTCOMES.includes(entry.outcome)) {
+        return new Response(JSON.stringify({
+          error: `Invalid item outcome: each entry needs item_id and outcome (${ITEM_OUTCOMES.join(', ')})`
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+      reportedOutcomes.set(entry.item_id, entry.outcome)
+    }
+
+    // Validate proof of service (all optional)
+    if (photo_paths !== undefined && (!Array.isArray(photo_paths) || !photo_paths.every(isValidStoragePath))) {
+      return new Response(JSON.stringify({ error: 'photo_paths must be an array of storage paths' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (photo_paths?.length > MAX_PROOF_PHOTOS) {
+      return new Response(JSON.stringify({ error: `photo_paths is limited to ${MAX_PROOF_PHOTOS} photos` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (signature_path !== undefined && signature_path !== null && !isValidStoragePath(signature_path)) {
+      return new Response(JSON.stringify({ error: 'signature_path must be a storage path' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (driver_notes !== undefined && driver_notes !== null &&
+        (typeof driver_notes !== 'string' || driver_notes.length > MAX_DRIVER_NOTES_LENGTH)) {
+      return new Response(JSON.stringify({ error: `driver_notes must be a string of at most ${MAX_DRIVER_NOTES_LENGTH} characters` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const proofPhotoPaths: string[] = (photo_paths || []).map((path: string) => path.trim())
+    const signaturePath: string | null = signature_path ? signature_path.trim() : null
+    const driverNotes: string | null = driver_notes?.trim() || null
+
     // Fetch action (include user_id for email lookup)
     const { data: action, error: actionError } = await supabase
       .from('actions')
@@ -144,12 +359,11 @@ serve(async (req) => {
     }
 
     // Verify action is in valid state for completion
-    // Valid states: 'confirmed' (standard flow) or 'pending_confirmation' (edge case)
-    // Note: 'in_progress' is not used in the current workflow
-    const completableStatuses = ['confirmed', 'pending_confirmation']
-    if (!completableStatuses.includes(action.status)) {
+    // Valid states: 'in_progress' (driver started via start-service), 'confirmed' (no start recorded)
+    // or 'pending_confirmation' (edge case)
+    if (!COMPLETABLE_STATUSES.includes(action.status)) {
       return new Response(JSON.stringify({
-        error: `Cannot complete: action status is '${action.status}' (expected 'confirmed' or 'pending_confirmation')`
+        error: `Cannot complete: action status is '${action.status}' (expected one of: ${COMPLETABLE_STATUSES.join(', ')})`
       }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -159,39 +373,137 @@ serve(async (req) => {
     // Update item statuses based on service type
     // PICKUP: items go from 'home' or 'scheduled' → 'stored'
     // DELIVERY: items go from 'stored' or 'scheduled' → 'home'
+    // EXCHANGE: both of the above in the same visit
+    // Items with an outcome other than 'done' go back to their pre-booking status instead
+    const processesPickup = action.service_type === 'pickup' || action.service_type === 'exchange'
+    const processesDelivery = action.service_type === 'delivery' || action.service_type === 'exchange'
+
+    const pickupItemIds: string[] = processesPickup ? action.pickup_item_ids || [] : []
+    const deliveryItemIds: string[] = processesDelivery ? action.delivery_item_ids || [] : []
+
+    // Outcomes may only reference items this visit handles
+    const serviceItemIds = new Set([...pickupItemIds, ...deliveryItemIds])
+    const unknownItemIds = [...reportedOutcomes.keys()].filter(id => !serviceItemIds.has(id))
+    if (unknownItemIds.length > 0) {
+      return new Response(JSON.stringify({
+        error: 'item_outcomes references items not on this booking',
+        item_ids: unknownItemIds
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
 
-    if (action.service_type === 'pickup' && action.pickup_item_ids?.length > 0) {
-      const { error: updateError } = await supabase
-        .from('items')
-        .update({ status: 'stored', updated_at: new Date().toISOString() })
-        .in('id', action.pickup_item_ids)
+    const outcomeOf = (id: string): ItemOutcome => reportedOutcomes.get(id) || 'done'
+    const isHeld = (id: string) => outcomeOf(id) === 'skipped' || outcomeOf(id) === 'damaged'
+    const pickupDoneIds = pickupItemIds.filter(id => outcomeOf(id) === 'done')
+    const pickupHeldIds = pickupItemIds.filter(isHeld)
+    const deliveryDoneIds = deliveryItemIds.filter(id => outcomeOf(id) === 'done')
+    const deliveryHeldIds = deliveryItemIds.filter(isHeld)
+    const missingIds = [...serviceItemIds].filter(id => outcomeOf(id) === 'missing')
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // COVERAGE: stored declared value after this visit must stay within the plan cap
+    // ═══════════════════════════════════════════════════════════════════════
+    const { data: customerProfile } = await supabase
+      .from('customer_profile')
+      .select('email, first_name, billing_version, setup_fee_paid, subscription_id, stripe_customer_id')
+      .eq('user_id', action.user_id)
+      .single()
 
-      if (updateError) {
-        console.error('Failed to update pickup items:', updateError)
-        return new Response(JSON.stringify({ error: 'Failed to update pickup items' }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
-      }
+    // Items currently in storage (including those booked for delivery) plus the items on this
+    // visit (pickup items aren't stored yet)
+    const { items: storedItems, error: storedError } = await fetchItemsInStorage(supabase, action.user_id)
+
+    const { data: visitItems, error: visitError } = serviceItemIds.size > 0
+      ? await supabase
+          .from('items')
+          .select('id, status, declared_value')
+          .in('id', [...serviceItemIds])
+      : { data: [], error: null }
+
+    const valuesError = storedError || visitError
+    const valuedItems = [...storedItems, ...(visitItems || [])]
+    if (valuesError) {
+      console.error('Failed to fetch declared values:', valuesError)
+      return new Response(JSON.stringify({ error: 'Failed to check coverage' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const declaredValueOf = new Map<string, number>(
+      valuedItems.map((item: any) => [item.id, Number(item.declared_value || 0)])
+    )
+    const sumDeclared = (ids: string[]) => ids.reduce((sum, id) => sum + (declaredValueOf.get(id) || 0), 0)
 
-      console.log(`Updated ${action.pickup_item_ids.length} items to 'stored'`)
+    // Stored now, minus what this visit delivers, plus what this visit picks up
+    const deliveryDoneSet = new Set(deliveryDoneIds)
+    const storedTotalBefore = sumDeclared(
+      storedItems.filter(item => !deliveryDoneSet.has(item.id)).map(item => item.id)
+    )
+    const storedTotalAfter = storedTotalBefore + sumDeclared(pickupDoneIds)
+
+    if (pickupDoneIds.length > 0 && storedTotalAfter > COVERAGE_CAPS.total) {
+      console.log(`Coverage cap exceeded for user ${action.user_id}: $${storedTotalAfter} > $${COVERAGE_CAPS.total}`)
+      return new Response(JSON.stringify({
+        error: 'Coverage limit exceeded',
+        reason: `Declared value in storage would be $${storedTotalAfter} (plan coverage: $${COVERAGE_CAPS.total}). Mark some items as skipped or have the customer adjust declared values.`,
+        declared_value_in_storage: storedTotalAfter,
+        coverage_cap: COVERAGE_CAPS.total
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
     }
 
-    if (action.service_type === 'delivery' && action.delivery_item_ids?.length > 0) {
-      const { error: updateError } = await supabase
+    const itemUpdates: Array<{ ids: string[]; status: 'home' | 'stored' | 'missing'; label: string }> = [
+      { ids: pickupDoneIds, status: 'stored', label: 'pickup items' },
+      { ids: pickupHeldIds, status: 'home', label: 'held pickup items' },
+      { ids: deliveryDoneIds, status: 'home', label: 'delivery items' },
+      { ids: deliveryHeldIds, status: 'stored', label: 'held delivery items' },
+      // Neither at home nor in the warehouse: flagged until staff locate them
+      { ids: missingIds, status: 'missing', label: 'missing items' },
+    ]
+
+    // Delivered items leave their warehouse bin; record the move before the location is cleared
+    if (deliveryDoneIds.length > 0) {
+      const { data: locatedItems } = await supabase
         .from('items')
-        .update({ status: 'home', updated_at: new Date().toISOString() })
-        .in('id', action.delivery_item_ids)
+        .select('id, warehouse_location')
+        .in('id', deliveryDoneIds)
+        .not('warehouse_location', 'is', null)
+
+      if (locatedItems && locatedItems.length > 0) {
+        const { error: historyError } = await supabase
+          .from('item_location_history')
+          .insert(locatedItems.map((item: any) => ({
+            item_id: item.id,
+            from_location: item.warehouse_location,
+            to_location: null,
+            moved_by: caller.id,
+            note: `Delivered (action ${action_id})`
+          })))
+
+        if (historyError) {
+          console.error('Failed to record location history:', historyError)
+        }
+      }
+    }
+
+    for (const update of itemUpdates) {
+      if (update.ids.length === 0) continue
+      const { error: updateError } = await setItemStatus(supabase, update.ids, update.status)
 
       if (updateError) {
-        console.error('Failed to update delivery items:', updateError)
-        return new Response(JSON.stringify({ error: 'Failed to update delivery items' }), {
+        console.error(`Failed to update ${update.label}:`, updateError)
+        return new Response(JSON.stringify({ error: `Failed to update ${update.label}` }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
 
-      console.log(`Updated ${action.delivery_item_ids.length} items to 'home'`)
+      console.log(`Updated ${update.ids.length} ${update.label} to '${update.status}'`)
     }
 
     // Mark action as completed (ATOMIC: only if still in completable state)
@@ -201,10 +513,14 @@ serve(async (req) => {
       .update({
         status: 'completed',
         completed_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        updated_at: new Date().toISOString(),
+        // Proof of service (customer-visible via booking-get)
+        proof_photo_paths: proofPhotoPaths,
+        signature_path: signaturePath,
+        driver_notes: driverNotes
       })
       .eq('id', action_id)
-      .in('status', ['confirmed', 'pending_confirmation'])
+      .in('status', COMPLETABLE_STATUSES)
       .select()
       .maybeSingle()
 
@@ -231,45 +547,60 @@ serve(async (req) => {
     }
 
     // Log completion event (non-blocking)
-    const itemsUpdated = action.service_type === 'pickup'
-      ? action.pickup_item_ids?.length || 0
-      : action.delivery_item_ids?.length || 0
-
-    await supabase.rpc('log_booking_event', {
-      p_action_id: action_id,
-      p_event_type: 'service_completed',
-      p_metadata: {
+    const pickupItemsUpdated = pickupDoneIds.length
+    const deliveryItemsUpdated = deliveryDoneIds.length
+    const itemsUpdated = pickupItemsUpdated + deliveryItemsUpdated
+
+    const outcomeCounts: Record<ItemOutcome, number> = { done: 0, skipped: 0, missing: 0, damaged: 0 }
+    for (const id of serviceItemIds) outcomeCounts[outcomeOf(id)]++
+    const exceptionOutcomes = [...serviceItemIds]
+      .filter(id => outcomeOf(id) !== 'done')
+      .map(id => ({ item_id: id, outcome: outcomeOf(id), declared_value: declaredValueOf.get(id) || 0 }))
+    const damagedIds = [...serviceItemIds].filter(id => outcomeOf(id) === 'damaged')
+
+    console.log(`Service completed: ${action.service_type} for action ${action_id} (${itemsUpdated} items updated)`)
+
+    // Events, emails and the subscription start (never fail the completed visit)
+    const subscriptionStart = await followUpCompletion(supabase, {
+      sendEmail: sendTransactionalEmail,
+      startSubscription: (params) => startSubscriptionAfterPickup(supabase, params)
+    }, {
+      actionId: action_id,
+      userId: action.user_id,
+      completedBy: caller.id,
+      customer: customerProfile,
+      pickupItemsUpdated,
+      deliveryItemsUpdated,
+      missingPickupIds: pickupItemIds.filter(id => outcomeOf(id) === 'missing'),
+      missingDeliveryIds: deliveryItemIds.filter(id => outcomeOf(id) === 'missing'),
+      declaredValueMissing: sumDeclared(missingIds),
+      completionMetadata: {
         service_type: action.service_type,
         items_updated: itemsUpdated,
+        pickup_items_updated: pickupItemsUpdated,
+        delivery_items_updated: deliveryItemsUpdated,
+        outcome_counts: outcomeCounts,
+        item_outcomes: exceptionOutcomes,
+        partial: exceptionOutcomes.length > 0,
+        proof_photo_count: proofPhotoPaths.length,
+        has_signature: !!signaturePath,
+        // Basis for claims: declared values as of completion
+        declared_value_picked_up: sumDeclared(pickupDoneIds),
+        declared_value_delivered: sumDeclared(deliveryDoneIds),
+        declared_value_damaged: sumDeclared(damagedIds),
+        declared_value_in_storage: storedTotalAfter,
+        coverage_cap: COVERAGE_CAPS.total,
         completed_by: caller.id
       }
-    }).catch(err => console.error('Failed to log booking event:', err))
-
-    console.log(`Service completed: ${action.service_type} for action ${action_id} (${itemsUpdated} items updated)`)
-
-    // Send service completion email (non-blocking)
-    // Look up customer profile for email and first_name
-    const { data: customerProfile } = await supabase
-      .from('customer_profile')
-      .select('email, first_name')
-      .eq('user_id', action.user_id)
-      .single()
-
-    if (customerProfile?.email) {
-      const emailType = action.service_type === 'pickup' ? 'pickup_complete' : 'delivery_complete'
-      sendTransactionalEmail(emailType, customerProfile.email, {
-        firstName: customerProfile.first_name || undefined,
-        itemCount: itemsUpdated,
-      })
-    } else {
-      console.log(`No customer email found for user ${action.user_id}, skipping service email`)
-    }
+    })
 
     return new Response(JSON.stringify({
       ok: true,
       action: updatedAction,
       message: `Service completed: ${action.service_type}`,
-      items_updated: itemsUpdated
+      items_updated: itemsUpdated,
+      outcome_counts: outcomeCounts,
+      subscription_start: subscriptionStart
     }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -0,0 +1,319 @@
+// Storage Valet — Confirm Booking Edge Function
+// v1.1 • Accounts with an open Stripe dispute can't be confirmed
+// v1.0 • Staff confirmation of pending_confirmation bookings
+//
+// Invocation: POST /functions/v1/confirm-booking (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: { "action_id": "uuid" }
+//
+// Checks before confirming:
+// - At least one item selected (pickup_item_ids or delivery_item_ids)
+// - Service address present and its ZIP in the service area
+// - Customer subscription is active or trialing
+// - No open payment dispute (customer_profile.dispute_open)
+//
+// Transition: pending_confirmation → confirmed (atomic)
+// Logs booking_confirmed with confirmed_by, then emails the customer (non-blocking)
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Subscription states that allow service
+const BOOKABLE_SUBSCRIPTION_STATUSES = ['active', 'trialing']
+
+// Send transactional email via send-email edge function (fire-and-forget)
+async function sendTransactionalEmail(
+  type: 'booking_confirmed',
+  to: string,
+  data: { firstName?: string; itemCount?: number; serviceType?: string; scheduledStart?: string; scheduledEnd?: string }
+) {
+  try {
+    const sendEmailUrl = `${supabaseUrl}/functions/v1/send-email`
+    const response = await fetch(sendEmailUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({ type, to, data }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      console.error(`Failed to send ${type} email to ${to}:`, error)
+    } else {
+      const result = await response.json()
+      console.log(`Sent ${type} email to ${to} (id: ${result.id})`)
+    }
+  } catch (error) {
+    // Non-blocking: log but don't throw
+    console.error(`Error sending ${type} email to ${to}:`, error)
+  }
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Confirm-booking request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { action_id } = body
+    if (!action_id) {
+      return new Response(JSON.stringify({ error: 'action_id required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Fetch action
+    const { data: action, error: actionError } = await supabase
+      .from('actions')
+      .select('id, user_id, status, service_type, scheduled_start, scheduled_end, service_address, pickup_item_ids, delivery_item_ids')
+      .eq('id', action_id)
+      .single()
+
+    if (actionError || !action) {
+      return new Response(JSON.stringify({ error: 'Action not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Idempotent: already confirmed
+    if (action.status === 'confirmed') {
+      console.log(`Action ${action_id} already confirmed, returning success (idempotent)`)
+      return new Response(JSON.stringify({ ok: true, already_confirmed: true, status: 'confirmed' }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action.status !== 'pending_confirmation') {
+      return new Response(JSON.stringify({
+        error: `Cannot confirm: action status is '${action.status}' (expected 'pending_confirmation')`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Customer profile: subscription state, fallback address, email details
+    const { data: customerProfile, error: profileError } = await supabase
+      .from('customer_profile')
+      .select('email, first_name, subscription_status, delivery_address, dispute_open')
+      .eq('user_id', action.user_id)
+      .maybeSingle()
+
+    if (profileError) {
+      console.error('Failed to fetch customer profile:', profileError)
+      return new Response(JSON.stringify({ error: 'Failed to fetch customer profile' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // VALIDATION: collect every failing check so ops can fix them in one pass
+    // ═══════════════════════════════════════════════════════════════════════
+    const problems: string[] = []
+
+    const pickupCount = action.pickup_item_ids?.length || 0
+    const deliveryCount = action.delivery_item_ids?.length || 0
+    if (pickupCount + deliveryCount === 0) {
+      problems.push('No items selected for this booking')
+    }
+
+    // Bookings auto-created from Calendly may have no address snapshot; fall back to the profile
+    const serviceAddress = action.service_address || customerProfile?.delivery_address || null
+    const zip = typeof serviceAddress?.zip === 'string' ? serviceAddress.zip.replace(/\s/g, '').substring(0, 5) : ''
+    if (!zip) {
+      problems.push('Customer has no service address on file')
+    } else {
+      const { data: isValidZip, error: zipError } = await supabase.rpc('is_valid_zip_code', { zip })
+      if (zipError) {
+        console.error('Failed to validate ZIP code:', zipError)
+        return new Response(JSON.stringify({ error: 'Failed to validate service area' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+      if (isValidZip !== true) {
+        problems.push(`Service address ZIP ${zip} is outside the service area`)
+      }
+    }
+
+    const subscriptionStatus = customerProfile?.subscription_status || 'inactive'
+    if (!BOOKABLE_SUBSCRIPTION_STATUSES.includes(subscriptionStatus)) {
+      problems.push(`Customer subscription is '${subscriptionStatus}' (expected ${BOOKABLE_SUBSCRIPTION_STATUSES.join(' or ')})`)
+    }
+
+    if (customerProfile?.dispute_open) {
+      problems.push('Customer has an open payment dispute (account on hold until resolved)')
+    }
+
+    if (problems.length > 0) {
+      console.log(`Cannot confirm action ${action_id}: ${problems.join('; ')}`)
+      return new Response(JSON.stringify({ error: 'Cannot confirm booking', problems }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Mark action as confirmed (ATOMIC: only if still pending_confirmation)
+    // Snapshot the validated address so the driver sees what was confirmed
+    const { data: updatedAction, error: confirmError } = await supabase
+      .from('actions')
+      .update({
+        status: 'confirmed',
+        service_address: serviceAddress,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', action_id)
+      .eq('status', 'pending_confirmation')
+      .select()
+      .maybeSingle()
+
+    if (confirmError) {
+      console.error('Failed to confirm action:', confirmError)
+      return new Response(JSON.stringify({ error: 'Failed to confirm booking' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // If no row returned, the customer edited/canceled concurrently - don't email
+    if (!updatedAction) {
+      console.log(`Action ${action_id} no longer pending_confirmation (status changed concurrently)`)
+      return new Response(JSON.stringify({
+        error: 'Booking status changed, please refresh and try again'
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { error: eventError } = await supabase.rpc('log_booking_event', {
+      p_action_id: action_id,
+      p_event_type: 'booking_confirmed',
+      p_metadata: {
+        previous_status: action.status,
+        pickup_count: pickupCount,
+        delivery_count: deliveryCount,
+        confirmed_by: caller.id
+      }
+    })
+
+    if (eventError) {
+      console.error('Failed to log booking event:', eventError)
+    }
+
+    console.log(`Booking confirmed: action ${action_id} by staff ${caller.id}`)
+
+    // Send booking confirmation email (non-blocking)
+    if (customerProfile?.email) {
+      sendTransactionalEmail('booking_confirmed', customerProfile.email, {
+        firstName: customerProfile.first_name || undefined,
+        itemCount: pickupCount + deliveryCount,
+        serviceType: action.service_type,
+        scheduledStart: action.scheduled_start || undefined,
+        scheduledEnd: action.scheduled_end || undefined,
+      })
+    } else {
+      console.log(`No customer email found for user ${action.user_id}, skipping confirmation email`)
+    }
+
+    return new Response(JSON.stringify({
+      ok: true,
+      action: updatedAction,
+      message: 'Booking confirmed'
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('confirm-booking error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -1,7 +1,8 @@
 // Storage Valet — Create Checkout Edge Function
 // v3.5 • Strict CORS + dynamic return URLs based on origin
 // Date: January 7, 2026
-// NOTE: $299/month subscription is started MANUALLY 5-7 days after signup or at first pickup
+// NOTE: $299/month subscription starts at the first successful pickup (complete-service;
+// SUBSCRIPTION_START_MODE=approval queues it for approve-subscription-start instead)
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
@@ -139,7 +140,7 @@ serve(async (req) => {
     // Build metadata for referral tracking
     const metadata: Record<string, string> = {
       product_type: 'setup_fee',
-      subscription_start_method: 'manual', // Indicates subscription will be started manually
+      subscription_start_method: 'first_pickup', // Subscription is started by complete-service
     }
     if (referral_code) metadata.referral_code = referral_code
     if (promo_code) metadata.promo_code = promo_code
@@ -0,0 +1,301 @@
+// Storage Valet — Expire Pending Bookings Edge Function
+// v1.1 • Reminders count only once delivered; no reminder or auto-cancel past the cutoff without one (staff alert)
+// v1.0 • Scheduled sweep of bookings stuck in pending_items (no items chosen)
+//
+// Invocation: POST /functions/v1/expire-pending-bookings (scheduled, e.g. hourly via pg_cron + pg_net)
+// Auth: service role key in Authorization header (not callable by customers or staff JWTs)
+// Body: none
+//
+// For every pending_items booking starting within PENDING_ITEMS_REMINDER_HOURS (default 48):
+// 1. No reminder yet, before the items deadline (PENDING_ITEMS_CUTOFF_HOURS, default 24, before start) →
+//    send items_reminder email; pending_items_reminder_sent is logged only once send-email accepted it
+//    (a failed send is retried next run)
+// 2. Reminder delivered and the deadline has passed →
+//    cancel (atomic, only if still pending_items), log system_auto_canceled, send booking_canceled
+// Bookings are never auto-canceled without a delivered reminder: those that reach the deadline
+// without one (booked inside the cutoff, failed sends) or whose customer has no email on file
+// get a pending_items_unreminded staff alert instead, and staff decide.
+//
+// Calendly: with AUTO_CANCEL_CALENDLY_EVENTS=true the Calendly event is canceled too (frees the slot
+// in Calendly; the resulting invitee.canceled webhook is a no-op on an already-canceled action).
+// Calendly client: real API when CALENDLY_API_TOKEN is set; the stand-in that only logs is used only
+// with CALENDLY_CLIENT=local. Without either, Calendly events are left for staff to cancel.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createCalendlyClient } from '../_shared/calendly.ts'
+import { createStaffAlert } from '../_shared/staffAlerts.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const HOUR_MS = 60 * 60 * 1000
+const REMINDER_HOURS = Number(Deno.env.get('PENDING_ITEMS_REMINDER_HOURS') || '48')
+const CUTOFF_HOURS = Number(Deno.env.get('PENDING_ITEMS_CUTOFF_HOURS') || '24')
+const CANCEL_CALENDLY_EVENTS = Deno.env.get('AUTO_CANCEL_CALENDLY_EVENTS') === 'true'
+
+const REMINDER_EVENT = 'pending_items_reminder_sent'
+const UNREMINDED_ALERT = 'pending_items_unreminded'
+
+// Customer-facing reason for the booking_canceled email
+const AUTO_CANCEL_REASON = 'No items were selected for this appointment before the deadline'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Validate caller is using service role key (scheduler only)
+function validateServiceRoleAuth(req: Request): boolean {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) return false
+
+  const token = authHeader.replace('Bearer ', '')
+  return token === supabaseServiceKey
+}
+
+// Send transactional email via send-email edge function (fire-and-forget)
+async function sendTransactionalEmail(
+  type: 'items_reminder' | 'booking_canceled',
+  to: string,
+  data: { firstName?: string; serviceType?: string; scheduledStart?: string; scheduledEnd?: string; itemsDeadline?: string; cancelReason?: string }
+): Promise<boolean> {
+  try {
+    const sendEmailUrl = `${supabaseUrl}/functions/v1/send-email`
+    const response = await fetch(sendEmailUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({ type, to, data }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      console.error(`Failed to send ${type} email to ${to}:`, error)
+      return false
+    }
+    const result = await response.json()
+    console.log(`Sent ${type} email to ${to} (id: ${result.id})`)
+    return true
+  } catch (error) {
+    // Non-blocking: log but don't throw
+    console.error(`Error sending ${type} email to ${to}:`, error)
+    return false
+  }
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // SECURITY: scheduler calls with the service role key
+    if (!validateServiceRoleAuth(req)) {
+      console.error('Unauthorized expire-pending-bookings attempt (missing or invalid service role key)')
+      return new Response(JSON.stringify({ error: 'Unauthorized: service role key required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const now = Date.now()
+    const horizon = new Date(now + REMINDER_HOURS * HOUR_MS).toISOString()
+
+    const { data: pendingActions, error: pendingError } = await supabase
+      .from('actions')
+      .select('id, user_id, service_type, scheduled_start, scheduled_end, calendly_event_uri')
+      .eq('status', 'pending_items')
+      .not('scheduled_start', 'is', null)
+      .lte('scheduled_start', horizon)
+      .order('scheduled_start', { ascending: true })
+
+    if (pendingError) {
+      console.error('Failed to fetch pending_items bookings:', pendingError)
+      return new Response(JSON.stringify({ error: 'Failed to fetch bookings' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const actions = pendingActions || []
+    console.log(`Found ${actions.length} pending_items bookings within ${REMINDER_HOURS}h`)
+
+    const summary = { checked: actions.length, reminded: 0, canceled: 0, calendly_canceled: 0, left_for_staff: 0, failed: 0 }
+    if (actions.length === 0) {
+      return new Response(JSON.stringify({ success: true, ...summary }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const actionIds = actions.map((action: any) => action.id)
+    const userIds = [...new Set(actions.map((action: any) => action.user_id))]
+
+    // Reminder dedupe via booking_events
+    const { data: reminderEvents, error: remindersError } = await supabase
+      .from('booking_events')
+      .select('action_id')
+      .eq('event_type', REMINDER_EVENT)
+      .in('action_id', actionIds)
+
+    if (remindersError) {
+      // Without the dedupe set we could re-send or cancel early; bail out this run
+      console.error('Failed to fetch reminder events:', remindersError)
+      return new Response(JSON.stringify({ error: 'Failed to fetch reminder history' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+    const remindedIds = new Set((reminderEvents || []).map((event: any) => event.action_id))
+
+    const { data: profiles } = await supabase
+      .from('customer_profile')
+      .select('user_id, email, first_name')
+      .in('user_id', userIds)
+    const profilesByUser = new Map((profiles || []).map((profile: any) => [profile.user_id, profile]))
+
+    const calendly = CANCEL_CALENDLY_EVENTS ? createCalendlyClient() : null
+    if (CANCEL_CALENDLY_EVENTS && !calendly) {
+      console.error('AUTO_CANCEL_CALENDLY_EVENTS is set but no Calendly client is configured (CALENDLY_API_TOKEN)')
+    }
+
+    for (const action of actions) {
+      const profile: any = profilesByUser.get(action.user_id)
+      const cutoffAt = new Date(new Date(action.scheduled_start).getTime() - CUTOFF_HOURS * HOUR_MS)
+
+      const pastCutoff = now >= cutoffAt.getTime()
+
+      // Step 1: reminder first; without a delivered one the booking is never auto-canceled
+      if (!remindedIds.has(action.id)) {
+        if (pastCutoff || !profile?.email) {
+          // A reminder now would name a deadline that has passed, or can't be sent at all
+          console.log(`Action ${action.id} has no delivered reminder (${pastCutoff ? 'past items deadline' : 'no customer email'}), leaving for staff`)
+          await createStaffAlert(supabase, {
+            alert_type: UNREMINDED_ALERT,
+            action_id: action.id,
+            message: pastCutoff
+              ? `Booking at ${action.scheduled_start} still has no items and the customer was not reminded before the deadline`
+              : `Booking at ${action.scheduled_start} has no items and the customer has no email for a reminder`,
+            metadata: {
+              source: 'expire-pending-bookings',
+              reason: pastCutoff ? 'past_items_deadline' : 'no_customer_email',
+              items_deadline: cutoffAt.toISOString(),
+              user_id: action.user_id
+            }
+          })
+          summary.left_for_staff++
+          continue
+        }
+
+        const emailSent = await sendTransactionalEmail('items_reminder', profile.email, {
+          firstName: profile.first_name || undefined,
+          serviceType: action.service_type,
+          scheduledStart: action.scheduled_start,
+          scheduledEnd: action.scheduled_end || undefined,
+          itemsDeadline: cutoffAt.toISOString(),
+        })
+
+        if (!emailSent) {
+          // Not logged, so the next run retries (or alerts staff once the deadline passes)
+          summary.failed++
+          continue
+        }
+
+        await supabase.rpc('log_booking_event', {
+          p_action_id: action.id,
+          p_event_type: REMINDER_EVENT,
+          p_metadata: {
+            source: 'expire-pending-bookings',
+            items_deadline: cutoffAt.toISOString(),
+            email_sent: true
+          }
+        })
+
+        summary.reminded++
+        continue
+      }
+
+      // Step 2: cancel once the cutoff has passed
+      if (!pastCutoff) continue
+
+      // ATOMIC: only if items still haven't been chosen
+      const { data: canceledAction, error: cancelError } = await supabase
+        .from('actions')
+        .update({
+          status: 'canceled',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', action.id)
+        .eq('status', 'pending_items')
+        .select('id')
+        .maybeSingle()
+
+      if (cancelError) {
+        console.error(`Failed to auto-cancel action ${action.id}:`, cancelError)
+        summary.failed++
+        continue
+      }
+
+      if (!canceledAction) {
+        console.log(`Action ${action.id} left pending_items concurrently, skipping`)
+        continue
+      }
+
+      let calendlyCanceled = false
+      if (calendly && action.calendly_event_uri) {
+        try {
+          await calendly.cancelEvent(action.calendly_event_uri, AUTO_CANCEL_REASON)
+          calendlyCanceled = true
+          summary.calendly_canceled++
+        } catch (calendlyError) {
+          // Booking is already canceled on our side; staff can clear the Calendly event by hand
+          console.error(`Failed to cancel Calendly event for action ${action.id}:`, calendlyError)
+        }
+      }
+
+      await supabase.rpc('log_booking_event', {
+        p_action_id: action.id,
+        p_event_type: 'system_auto_canceled',
+        p_metadata: {
+          source: 'expire-pending-bookings',
+          reason: 'no_items_selected',
+          items_deadline: cutoffAt.toISOString(),
+          scheduled_start: action.scheduled_start,
+          calendly_event_uri: action.calendly_event_uri,
+          calendly_event_canceled: calendlyCanceled
+        }
+      })
+
+      if (profile?.email) {
+        sendTransactionalEmail('booking_canceled', profile.email, {
+          firstName: profile.first_name || undefined,
+          scheduledStart: action.scheduled_start,
+          scheduledEnd: action.scheduled_end || undefined,
+          cancelReason: AUTO_CANCEL_REASON,
+        })
+      }
+
+      console.log(`Auto-canceled action ${action.id} (no items selected by ${cutoffAt.toISOString()})`)
+      summary.canceled++
+    }
+
+    console.log(`Pending bookings sweep: ${JSON.stringify(summary)}`)
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('expire-pending-bookings error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,266 @@
+// Storage Valet — Item Labels Edge Function
+// v1.1 • Characters Helvetica can't encode (emoji, CJK, …) are replaced instead of failing the sheet
+// v1.0 • Printable QR label sheet for a booking's pickup items
+//
+// Invocation: POST /functions/v1/item-labels (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: { "action_id": "uuid" }
+// Returns: application/pdf — one label per entry in pickup_item_ids
+//
+// Layout: US Letter, 2 × 5 labels of 4" × 2" (Avery 5163 compatible)
+// Each label: QR code ("sv-item:<item id>", resolved by item-scan), item label, customer name, item id
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PDFDocument, StandardFonts, rgb } from 'npm:pdf-lib@1'
+import QRCode from 'npm:qrcode@1'
+import { toEncodableText } from '../_shared/pdfText.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// QR payload prefix (item-scan also accepts bare item ids)
+const ITEM_CODE_PREFIX = 'sv-item:'
+
+// Sheet geometry in PDF points (72 per inch)
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const LABEL_WIDTH = 288
+const LABEL_HEIGHT = 144
+const LABEL_COLUMNS = 2
+const LABEL_ROWS = 5
+const MARGIN_LEFT = 18
+const MARGIN_TOP = 36
+const LABEL_PADDING = 12
+const QR_SIZE = LABEL_HEIGHT - 2 * LABEL_PADDING
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Make text drawable with the font, then trim it to fit a width, adding an ellipsis when cut
+function fitText(text: string, font: any, size: number, maxWidth: number): string {
+  const safeText = toEncodableText(text, font)
+  if (font.widthOfTextAtSize(safeText, size) <= maxWidth) return safeText
+  let cut = safeText
+  while (cut.length > 0 && font.widthOfTextAtSize(`${cut}…`, size) > maxWidth) {
+    cut = cut.slice(0, -1)
+  }
+  return `${cut}…`
+}
+
+// Render the label sheet; items are laid out row by row, top to bottom
+async function buildLabelSheet(
+  items: Array<{ id: string; label: string | null }>,
+  customerName: string
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const labelsPerPage = LABEL_COLUMNS * LABEL_ROWS
+  const textX = LABEL_PADDING + QR_SIZE + LABEL_PADDING
+  const textWidth = LABEL_WIDTH - textX - LABEL_PADDING
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  items.forEach((item, index) => {
+    const slot = index % labelsPerPage
+    if (index > 0 && slot === 0) page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+
+    const column = slot % LABEL_COLUMNS
+    const row = Math.floor(slot / LABEL_COLUMNS)
+    const x = MARGIN_LEFT + column * LABEL_WIDTH
+    const y = PAGE_HEIGHT - MARGIN_TOP - (row + 1) * LABEL_HEIGHT
+
+    // QR code drawn module by module (vector, no image encoding)
+    const qr = QRCode.create(`${ITEM_CODE_PREFIX}${item.id}`, { errorCorrectionLevel: 'M' })
+    const moduleCount = qr.modules.size
+    const moduleSize = QR_SIZE / moduleCount
+    const qrX = x + LABEL_PADDING
+    const qrTop = y + LABEL_HEIGHT - LABEL_PADDING
+    for (let r = 0; r < moduleCount; r++) {
+      for (let c = 0; c < moduleCount; c++) {
+        if (!qr.modules.get(r, c)) continue
+        page.drawRectangle({
+          x: qrX + c * moduleSize,
+          y: qrTop - (r + 1) * moduleSize,
+          width: moduleSize,
+          height: moduleSize,
+          color: rgb(0, 0, 0),
+        })
+      }
+    }
+
+    const textTop = y + LABEL_HEIGHT - LABEL_PADDING
+    page.drawText(fitText(item.label || 'Unlabeled item', boldFont, 13, textWidth), {
+      x: x + textX, y: textTop - 13, size: 13, font: boldFont,
+    })
+    page.drawText(fitText(customerName, font, 10, textWidth), {
+      x: x + textX, y: textTop - 32, size: 10, font,
+    })
+    page.drawText(fitText(item.id, font, 6, textWidth), {
+      x: x + textX, y: y + LABEL_PADDING, size: 6, font, color: rgb(0.35, 0.35, 0.35),
+    })
+  })
+
+  return await pdf.save()
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Item-labels request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { action_id } = body
+    if (!action_id) {
+      return new Response(JSON.stringify({ error: 'action_id required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Fetch action
+    const { data: action, error: actionError } = await supabase
+      .from('actions')
+      .select('id, user_id, pickup_item_ids')
+      .eq('id', action_id)
+      .single()
+
+    if (actionError || !action) {
+      return new Response(JSON.stringify({ error: 'Action not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const pickupItemIds: string[] = action.pickup_item_ids || []
+    if (pickupItemIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'No pickup items on this booking' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('items')
+      .select('id, label')
+      .in('id', pickupItemIds)
+      .eq('user_id', action.user_id)
+
+    if (itemsError) {
+      console.error('Failed to fetch items:', itemsError)
+      return new Response(JSON.stringify({ error: 'Failed to fetch items' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: customerProfile } = await supabase
+      .from('customer_profile')
+      .select('full_name, first_name, last_name, email')
+      .eq('user_id', action.user_id)
+      .maybeSingle()
+
+    const customerName = customerProfile?.full_name ||
+      [customerProfile?.first_name, customerProfile?.last_name].filter(Boolean).join(' ') ||
+      customerProfile?.email ||
+      'Unknown customer'
+
+    // Keep the booking's item order so labels match the pickup list
+    const itemsById = new Map((items || []).map((item: any) => [item.id, item]))
+    const orderedItems = pickupItemIds
+      .map(id => itemsById.get(id))
+      .filter((item): item is { id: string; label: string | null } => !!item)
+
+    const pdfBytes = await buildLabelSheet(orderedItems, customerName)
+
+    console.log(`Generated ${orderedItems.length} labels for action ${action_id}`)
+
+    return new Response(pdfBytes, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="labels-${action_id}.pdf"`,
+      }
+    })
+
+  } catch (error) {
+    console.error('item-labels error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
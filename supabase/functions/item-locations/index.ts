@@ -0,0 +1,375 @@
+// Storage Valet — Item Locations Edge Function
+// v1.0 • Warehouse bin/shelf tracking for stored items, with movement history and delivery pick lists
+//
+// Invocation: POST /functions/v1/item-locations (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: { "operation": "...", ... }
+//
+// Operations:
+// - move:      { item_id, location, note? } → assign or move an item to a warehouse location
+// - history:   { item_id } → movement history, newest first
+// - pick_list: { action_id } → delivery items for a confirmed/in_progress booking, ordered by location
+//
+// Locations are zone-aisle-shelf-bin codes (e.g. "A-03-2-B"), stored uppercase on items.warehouse_location.
+// Every change is appended to item_location_history; complete-service clears the location on delivery.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const LOCATION_PATTERN = /^[A-Z0-9]+(-[A-Z0-9]+){0,4}$/
+const MAX_LOCATION_LENGTH = 32
+const MAX_NOTE_LENGTH = 500
+
+// Only items physically in the warehouse can be placed in a bin
+// ('scheduled' covers stored items booked for delivery but not yet picked)
+const LOCATABLE_ITEM_STATUSES = ['stored', 'scheduled']
+
+// Pick lists are only meaningful once a delivery is locked in
+const PICKABLE_ACTION_STATUSES = ['confirmed', 'in_progress']
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Natural ordering so "A-2" comes before "A-10"; unlocated items go last
+function compareLocations(a: string | null, b: string | null): number {
+  if (a === b) return 0
+  if (a === null) return 1
+  if (b === null) return -1
+  return a.localeCompare(b, 'en', { numeric: true })
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Item-locations request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { operation } = body
+
+    if (operation === 'move') {
+      const { item_id, note } = body
+      if (!item_id) {
+        return new Response(JSON.stringify({ error: 'item_id required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const location = typeof body.location === 'string' ? body.location.trim().toUpperCase() : ''
+      if (!location || location.length > MAX_LOCATION_LENGTH || !LOCATION_PATTERN.test(location)) {
+        return new Response(JSON.stringify({
+          error: 'location must be a code like "A-03-2-B" (letters/digits separated by dashes)'
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+        return new Response(JSON.stringify({ error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: item, error: itemError } = await supabase
+        .from('items')
+        .select('id, user_id, label, status, warehouse_location')
+        .eq('id', item_id)
+        .maybeSingle()
+
+      if (itemError || !item) {
+        return new Response(JSON.stringify({ error: 'Item not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (!LOCATABLE_ITEM_STATUSES.includes(item.status)) {
+        return new Response(JSON.stringify({
+          error: `Cannot locate an item with status '${item.status}'`,
+          reason: 'Only items in the warehouse (stored or scheduled for delivery) have a location'
+        }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Idempotent: already there
+      if (item.warehouse_location === location) {
+        return new Response(JSON.stringify({
+          success: true,
+          item_id,
+          location,
+          message: 'Item already at this location'
+        }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      // Conditional on the location we read, so concurrent moves can't both record history
+      let updateQuery = supabase
+        .from('items')
+        .update({ warehouse_location: location, updated_at: new Date().toISOString() })
+        .eq('id', item_id)
+      updateQuery = item.warehouse_location === null
+        ? updateQuery.is('warehouse_location', null)
+        : updateQuery.eq('warehouse_location', item.warehouse_location)
+
+      const { data: updatedItem, error: updateError } = await updateQuery
+        .select('id')
+        .maybeSingle()
+
+      if (updateError) {
+        console.error('Failed to move item:', updateError)
+        return new Response(JSON.stringify({ error: 'Failed to move item' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (!updatedItem) {
+        return new Response(JSON.stringify({ error: 'Item was moved concurrently. Please retry.' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { error: historyError } = await supabase
+        .from('item_location_history')
+        .insert({
+          item_id,
+          from_location: item.warehouse_location,
+          to_location: location,
+          moved_by: caller.id,
+          note: note || null
+        })
+
+      if (historyError) {
+        console.error('Failed to record location history:', historyError)
+      }
+
+      console.log(`Item ${item_id} moved ${item.warehouse_location || '(unassigned)'} → ${location} by staff ${caller.id}`)
+
+      return new Response(JSON.stringify({
+        success: true,
+        item_id,
+        from_location: item.warehouse_location,
+        location
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (operation === 'history') {
+      const { item_id } = body
+      if (!item_id) {
+        return new Response(JSON.stringify({ error: 'item_id required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: item, error: itemError } = await supabase
+        .from('items')
+        .select('id, label, status, warehouse_location')
+        .eq('id', item_id)
+        .maybeSingle()
+
+      if (itemError || !item) {
+        return new Response(JSON.stringify({ error: 'Item not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: moves, error: historyError } = await supabase
+        .from('item_location_history')
+        .select('from_location, to_location, moved_by, note, created_at')
+        .eq('item_id', item_id)
+        .order('created_at', { ascending: false })
+
+      if (historyError) {
+        console.error('Failed to fetch location history:', historyError)
+        return new Response(JSON.stringify({ error: 'Failed to fetch location history' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      return new Response(JSON.stringify({ item, history: moves || [] }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (operation === 'pick_list') {
+      const { action_id } = body
+      if (!action_id) {
+        return new Response(JSON.stringify({ error: 'action_id required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: action, error: actionError } = await supabase
+        .from('actions')
+        .select('id, user_id, status, service_type, scheduled_start, delivery_item_ids')
+        .eq('id', action_id)
+        .single()
+
+      if (actionError || !action) {
+        return new Response(JSON.stringify({ error: 'Action not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (action.service_type !== 'delivery' && action.service_type !== 'exchange') {
+        return new Response(JSON.stringify({ error: 'Pick lists are only available for delivery and exchange bookings' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      if (!PICKABLE_ACTION_STATUSES.includes(action.status)) {
+        return new Response(JSON.stringify({
+          error: `Cannot build a pick list for a booking with status '${action.status}'`,
+          reason: 'Booking must be confirmed first'
+        }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const deliveryItemIds: string[] = action.delivery_item_ids || []
+      let pickItems: any[] = []
+
+      if (deliveryItemIds.length > 0) {
+        const { data: items, error: itemsError } = await supabase
+          .from('items')
+          .select('id, label, category, status, warehouse_location')
+          .in('id', deliveryItemIds)
+          .eq('user_id', action.user_id)
+
+        if (itemsError) {
+          console.error('Failed to fetch items:', itemsError)
+          return new Response(JSON.stringify({ error: 'Failed to fetch items' }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          })
+        }
+
+        pickItems = (items || []).sort((a: any, b: any) =>
+          compareLocations(a.warehouse_location, b.warehouse_location)
+        )
+      }
+
+      const unlocatedCount = pickItems.filter(item => !item.warehouse_location).length
+      if (unlocatedCount > 0) {
+        console.warn(`Pick list for action ${action_id}: ${unlocatedCount} item(s) have no warehouse location`)
+      }
+
+      return new Response(JSON.stringify({
+        action_id,
+        status: action.status,
+        service_type: action.service_type,
+        scheduled_start: action.scheduled_start,
+        items: pickItems,
+        unlocated_count: unlocatedCount
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify({ error: 'operation must be one of: move, history, pick_list' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('item-locations error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,172 @@
+// Storage Valet — Item Scan Edge Function
+// v1.0 • Resolve a scanned label code to the item and its owning customer (warehouse check-in)
+//
+// Invocation: POST /functions/v1/item-scan (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: { "code": "sv-item:<item id>" } (bare item ids are accepted too)
+// Returns: { item, customer }
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// QR payload prefix written by item-labels
+const ITEM_CODE_PREFIX = 'sv-item:'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Extract the item id from a scanned code; null if it isn't one of ours
+function parseItemCode(code: string): string | null {
+  const trimmed = code.trim()
+  const itemId = trimmed.toLowerCase().startsWith(ITEM_CODE_PREFIX)
+    ? trimmed.slice(ITEM_CODE_PREFIX.length)
+    : trimmed
+  return UUID_PATTERN.test(itemId) ? itemId.toLowerCase() : null
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Item-scan request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { code } = body
+    if (typeof code !== 'string' || !code.trim()) {
+      return new Response(JSON.stringify({ error: 'code required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const itemId = parseItemCode(code)
+    if (!itemId) {
+      return new Response(JSON.stringify({ error: 'Unrecognized code' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: item, error: itemError } = await supabase
+      .from('items')
+      .select('id, user_id, label, description, category, status, warehouse_location, declared_value, photo_paths, archived_at')
+      .eq('id', itemId)
+      .maybeSingle()
+
+    if (itemError || !item) {
+      if (itemError) console.error('Failed to fetch item:', itemError)
+      return new Response(JSON.stringify({ error: 'Item not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { data: customerProfile } = await supabase
+      .from('customer_profile')
+      .select('user_id, full_name, first_name, last_name, email, phone')
+      .eq('user_id', item.user_id)
+      .maybeSingle()
+
+    console.log(`Scanned item ${item.id} (status: ${item.status}) by staff ${caller.id}`)
+
+    const { user_id, ...itemDetails } = item
+    return new Response(JSON.stringify({
+      item: itemDetails,
+      customer: customerProfile
+        ? {
+            user_id: customerProfile.user_id,
+            name: customerProfile.full_name ||
+              [customerProfile.first_name, customerProfile.last_name].filter(Boolean).join(' ') ||
+              null,
+            email: customerProfile.email,
+            phone: customerProfile.phone
+          }
+        : { user_id, name: null, email: null, phone: null }
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('item-scan error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,542 @@
+// Storage Valet — Items Edge Function
+// v1.3 • Raising the declared value of an item booked for delivery is checked against the total cap too
+// v1.2 • Photo paths are recorded by confirm_photo after the upload lands (atomic append_item_photo RPC)
+// v1.1 • Declared value per item, enforced against the plan's coverage caps
+// v1.0 • Customer item management (create, edit, archive, photo upload URLs)
+//
+// Invocation: POST /functions/v1/items (Edge Function)
+// Auth: JWT required in Authorization header
+// Body: { "operation": "...", ... }
+//
+// Operations:
+// - list:       { include_archived?: boolean }
+// - create:     { label, description?, category?, declared_value? } → new item with status 'home'
+// - update:     { item_id, label?, description?, category?, declared_value? } (metadata only; status is owned by booking flows)
+// - archive:    { item_id } → soft delete (archived_at), only while status is 'home'
+// - upload_url:    { item_id, content_type } → signed Storage upload URL (nothing recorded yet)
+// - confirm_photo: { item_id, path } → checks the uploaded object exists, then appends path to photo_paths
+//
+// All reads/writes use the service role client and are explicitly scoped by user_id
+//
+// Declared value (dollars) is capped per item, and the total declared value of items in
+// storage is capped per customer (same caps on every plan, see _shared/coverage.ts)
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { COVERAGE_CAPS, fetchItemsInStorage } from '../_shared/coverage.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Storage bucket for item photos (paths are stored in items.photo_paths)
+const ITEM_PHOTOS_BUCKET = Deno.env.get('ITEM_PHOTOS_BUCKET') || 'item-photos'
+
+const MAX_LABEL_LENGTH = 120
+const MAX_DESCRIPTION_LENGTH = 1000
+const MAX_CATEGORY_LENGTH = 50
+const MAX_PHOTOS_PER_ITEM = 10
+
+// Accepted photo types → file extension
+const PHOTO_CONTENT_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+}
+
+// File names issued by upload_url: <uuid>.<extension>
+const PHOTO_FILE_NAME_PATTERN = new RegExp(
+  `^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\\.(${Object.values(PHOTO_CONTENT_TYPES).join('|')})$`
+)
+
+// Columns returned to the portal
+const ITEM_COLUMNS = 'id, label, description, category, status, declared_value, photo_paths, archived_at, created_at, updated_at'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+}
+
+// Validate an optional text field; returns an error message or null
+function checkText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') return `${field} must be a string`
+  if (value.length > maxLength) return `${field} must be at most ${maxLength} characters`
+  return null
+}
+
+// Validate an optional declared value (dollars, up to 2 decimals); returns an error message or null
+function checkDeclaredValue(value: unknown, perItemCap: number): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    return 'declared_value must be a non-negative number'
+  }
+  if (Math.round(value * 100) !== value * 100) return 'declared_value must have at most 2 decimal places'
+  if (value > perItemCap) return `declared_value exceeds your plan's per-item coverage of $${perItemCap}`
+  return null
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: CORS_HEADERS })
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const token = authHeader.replace(/^Bearer\s+/i, '')
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: 'No token provided' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Verify JWT via Supabase Auth
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser()
+
+    if (authError || !user) {
+      console.error('Auth verification failed:', authError?.message || 'No user returned')
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const userId = user.id
+
+    // Parse request body
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const { operation } = body
+    console.log(`Items ${operation} requested by user ${userId}`)
+
+    // Service role client for database/storage operations, scoped by user_id
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // LIST
+    // ═══════════════════════════════════════════════════════════════════════
+    if (operation === 'list') {
+      let query = supabase
+        .from('items')
+        .select(ITEM_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+
+      if (body.include_archived !== true) {
+        query = query.is('archived_at', null)
+      }
+
+      const { data: items, error: listError } = await query
+
+      if (listError) {
+        console.error('Failed to list items:', listError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to fetch items' }),
+          { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ items: items || [] }),
+        { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // CREATE
+    // ═══════════════════════════════════════════════════════════════════════
+    if (operation === 'create') {
+      const label = typeof body.label === 'string' ? body.label.trim() : ''
+      if (!label) {
+        return new Response(
+          JSON.stringify({ error: 'label is required' }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      const validationError =
+        checkText(body.label, 'label', MAX_LABEL_LENGTH) ||
+        checkText(body.description, 'description', MAX_DESCRIPTION_LENGTH) ||
+        checkText(body.category, 'category', MAX_CATEGORY_LENGTH) ||
+        checkDeclaredValue(body.declared_value, COVERAGE_CAPS.perItem)
+      if (validationError) {
+        return new Response(
+          JSON.stringify({ error: validationError }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      const { data: item, error: createError } = await supabase
+        .from('items')
+        .insert({
+          user_id: userId,
+          label,
+          description: body.description?.trim() || null,
+          category: body.category?.trim() || null,
+          declared_value: body.declared_value ?? null,
+          status: 'home',  // New items start at the customer's home, ready for pickup
+          photo_paths: [],
+        })
+        .select(ITEM_COLUMNS)
+        .single()
+
+      if (createError) {
+        console.error('Failed to create item:', createError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to create item' }),
+          { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      console.log(`Created item ${item.id} for user ${userId}`)
+      return new Response(
+        JSON.stringify({ ok: true, item }),
+        { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Remaining operations act on one existing item
+    const { item_id } = body
+    if (!['update', 'archive', 'upload_url', 'confirm_photo'].includes(operation)) {
+      return new Response(
+        JSON.stringify({ error: 'operation must be one of: list, create, update, archive, upload_url, confirm_photo' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    if (!item_id) {
+      return new Response(
+        JSON.stringify({ error: 'item_id is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // Fetch item with ownership scope (not-owned and missing look the same)
+    const { data: item, error: fetchError } = await supabase
+      .from('items')
+      .select('id, status, declared_value, photo_paths, archived_at')
+      .eq('id', item_id)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (fetchError || !item) {
+      if (fetchError) console.error('Failed to fetch item:', fetchError)
+      return new Response(
+        JSON.stringify({ error: 'Item not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    if (item.archived_at) {
+      return new Response(
+        JSON.stringify({ error: 'Item is archived' }),
+        { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // UPDATE (metadata only)
+    // ═══════════════════════════════════════════════════════════════════════
+    if (operation === 'update') {
+      const validationError =
+        checkText(body.label, 'label', MAX_LABEL_LENGTH) ||
+        checkText(body.description, 'description', MAX_DESCRIPTION_LENGTH) ||
+        checkText(body.category, 'category', MAX_CATEGORY_LENGTH) ||
+        checkDeclaredValue(body.declared_value, COVERAGE_CAPS.perItem)
+      if (validationError) {
+        return new Response(
+          JSON.stringify({ error: validationError }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      const changes: Record<string, string | number | null> = {}
+      if (body.label !== undefined) {
+        const label = (body.label || '').trim()
+        if (!label) {
+          return new Response(
+            JSON.stringify({ error: 'label cannot be empty' }),
+            { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+          )
+        }
+        changes.label = label
+      }
+      if (body.description !== undefined) changes.description = body.description?.trim() || null
+      if (body.category !== undefined) changes.category = body.category?.trim() || null
+      if (body.declared_value !== undefined) changes.declared_value = body.declared_value
+
+      if (Object.keys(changes).length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Nothing to update (label, description, category or declared_value)' }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      // Raising the value of an item already in storage must stay within the total coverage cap
+      const newDeclaredValue = Number(body.declared_value ?? 0)
+      const mayBeInStorage = item.status === 'stored' || item.status === 'scheduled'
+      if (mayBeInStorage && body.declared_value !== undefined && newDeclaredValue > Number(item.declared_value ?? 0)) {
+        const { items: storedItems, error: storedError } = await fetchItemsInStorage(supabase, userId)
+
+        if (storedError) {
+          console.error('Failed to compute stored declared value:', storedError)
+          return new Response(
+            JSON.stringify({ error: 'Failed to check coverage' }),
+            { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+          )
+        }
+
+        const isInStorage = storedItems.some(stored => stored.id === item_id)
+        const otherStoredTotal = storedItems
+          .filter(stored => stored.id !== item_id)
+          .reduce((sum, stored) => sum + Number(stored.declared_value || 0), 0)
+
+        if (isInStorage && otherStoredTotal + newDeclaredValue > COVERAGE_CAPS.total) {
+          return new Response(
+            JSON.stringify({
+              error: 'Coverage limit reached',
+              reason: `Total declared value in storage would exceed your plan's coverage of $${COVERAGE_CAPS.total}.`
+            }),
+            { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+          )
+        }
+      }
+
+      const { data: updatedItem, error: updateError } = await supabase
+        .from('items')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', item_id)
+        .eq('user_id', userId)
+        .select(ITEM_COLUMNS)
+        .single()
+
+      if (updateError) {
+        console.error('Failed to update item:', updateError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to update item' }),
+          { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ ok: true, item: updatedItem }),
+        { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // ARCHIVE (soft delete, only while at home)
+    // ═══════════════════════════════════════════════════════════════════════
+    if (operation === 'archive') {
+      if (item.status !== 'home') {
+        return new Response(
+          JSON.stringify({
+            error: 'Cannot archive item',
+            reason: `Item status is '${item.status}'. Only items at home can be archived.`
+          }),
+          { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      // ATOMIC: only if still at home (not scheduled concurrently)
+      const { data: archivedItem, error: archiveError } = await supabase
+        .from('items')
+        .update({ archived_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', item_id)
+        .eq('user_id', userId)
+        .eq('status', 'home')
+        .select(ITEM_COLUMNS)
+        .maybeSingle()
+
+      if (archiveError) {
+        console.error('Failed to archive item:', archiveError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to archive item' }),
+          { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      if (!archivedItem) {
+        return new Response(
+          JSON.stringify({ error: 'Item status changed, please refresh and try again' }),
+          { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      console.log(`Archived item ${item_id} for user ${userId}`)
+      return new Response(
+        JSON.stringify({ ok: true, item: archivedItem }),
+        { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const photoPaths: string[] = item.photo_paths || []
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // CONFIRM PHOTO (record an uploaded photo on the item)
+    // ═══════════════════════════════════════════════════════════════════════
+    if (operation === 'confirm_photo') {
+      const { path } = body
+      const folder = `${userId}/${item_id}`
+      const fileName = typeof path === 'string' && path.startsWith(`${folder}/`)
+        ? path.slice(folder.length + 1)
+        : null
+
+      if (!fileName || !PHOTO_FILE_NAME_PATTERN.test(fileName)) {
+        return new Response(
+          JSON.stringify({ error: 'path must be a photo path issued by upload_url for this item' }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      // Retried confirm: already recorded
+      if (photoPaths.includes(path)) {
+        return new Response(
+          JSON.stringify({ ok: true, photo_paths: photoPaths }),
+          { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      // Only record objects that actually landed in Storage
+      const { data: objects, error: listError } = await supabase
+        .storage
+        .from(ITEM_PHOTOS_BUCKET)
+        .list(folder, { search: fileName })
+
+      if (listError) {
+        console.error('Failed to look up uploaded photo:', listError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to confirm photo' }),
+          { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      if (!(objects || []).some((object: any) => object.name === fileName)) {
+        return new Response(
+          JSON.stringify({ error: 'Photo has not been uploaded' }),
+          { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      // ATOMIC append: the RPC re-checks archived_at, duplicates and the photo limit in one UPDATE
+      const { data: updatedPaths, error: appendError } = await supabase.rpc('append_item_photo', {
+        p_item_id: item_id,
+        p_user_id: userId,
+        p_path: path,
+        p_max_photos: MAX_PHOTOS_PER_ITEM
+      })
+
+      if (appendError) {
+        console.error('Failed to append photo path:', appendError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to record photo' }),
+          { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      if (!updatedPaths) {
+        // Nothing appended: archived, limit reached, or a concurrent confirm recorded it first
+        const { data: current } = await supabase
+          .from('items')
+          .select('photo_paths')
+          .eq('id', item_id)
+          .eq('user_id', userId)
+          .maybeSingle()
+
+        if (current?.photo_paths?.includes(path)) {
+          return new Response(
+            JSON.stringify({ ok: true, photo_paths: current.photo_paths }),
+            { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+          )
+        }
+
+        return new Response(
+          JSON.stringify({ error: `Photo not recorded: item is archived or already has ${MAX_PHOTOS_PER_ITEM} photos` }),
+          { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        )
+      }
+
+      console.log(`Recorded photo for item ${item_id}: ${path}`)
+      return new Response(
+        JSON.stringify({ ok: true, photo_paths: updatedPaths }),
+        { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // UPLOAD URL (signed Storage upload; the path is recorded by confirm_photo)
+    // ═══════════════════════════════════════════════════════════════════════
+    const extension = PHOTO_CONTENT_TYPES[body.content_type]
+    if (!extension) {
+      return new Response(
+        JSON.stringify({
+          error: `content_type must be one of: ${Object.keys(PHOTO_CONTENT_TYPES).join(', ')}`
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    if (photoPaths.length >= MAX_PHOTOS_PER_ITEM) {
+      return new Response(
+        JSON.stringify({ error: `Items are limited to ${MAX_PHOTOS_PER_ITEM} photos` }),
+        { status: 409, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    const path = `${userId}/${item_id}/${crypto.randomUUID()}.${extension}`
+    const { data: signed, error: signError } = await supabase
+      .storage
+      .from(ITEM_PHOTOS_BUCKET)
+      .createSignedUploadUrl(path)
+
+    if (signError || !signed) {
+      console.error('Failed to create signed upload URL:', signError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to create upload URL' }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      )
+    }
+
+    console.log(`Issued upload URL for item ${item_id}: ${path}`)
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        path,
+        upload_url: signed.signedUrl,
+        token: signed.token
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    )
+
+  } catch (error) {
+    console.error('Items error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    )
+  }
+})
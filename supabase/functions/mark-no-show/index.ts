@@ -0,0 +1,254 @@
+// Storage Valet — Mark No-Show Edge Function
+// v1.1 • no_show_count incremented atomically (adjust_no_show_count RPC)
+// v1.0 • Staff marks a no-show from the field (same effect as Calendly invitee_no_show.created)
+//
+// Invocation: POST /functions/v1/mark-no-show (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: { "action_id": "uuid", "note"?: "text" }
+//
+// On no-show:
+// - Booking status → 'no_show' (terminal; atomic, only from a non-terminal state)
+// - Items in pickup_item_ids → revert to 'home'
+// - Items in delivery_item_ids → revert to 'stored'
+// - customer_profile.no_show_count incremented
+//
+// Idempotent: marking twice returns 200 without a second count/event
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// States that can be marked as a no-show (any non-terminal state)
+const NO_SHOW_ELIGIBLE_STATES = ['pending_items', 'pending_confirmation', 'confirmed', 'in_progress']
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Mark-no-show request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { action_id, note } = body
+    if (!action_id) {
+      return new Response(JSON.stringify({ error: 'action_id required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Fetch action
+    const { data: action, error: actionError } = await supabase
+      .from('actions')
+      .select('id, user_id, status, pickup_item_ids, delivery_item_ids')
+      .eq('id', action_id)
+      .single()
+
+    if (actionError || !action) {
+      return new Response(JSON.stringify({ error: 'Action not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Idempotent: already marked
+    if (action.status === 'no_show') {
+      console.log(`Action ${action_id} already no_show, returning success (idempotent)`)
+      return new Response(JSON.stringify({ ok: true, status: 'no_show' }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!NO_SHOW_ELIGIBLE_STATES.includes(action.status)) {
+      return new Response(JSON.stringify({
+        error: `Cannot mark no-show: action status is '${action.status}' (expected one of: ${NO_SHOW_ELIGIBLE_STATES.join(', ')})`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Mark action as no_show (ATOMIC: only if still eligible)
+    const now = new Date().toISOString()
+    const { data: updatedAction, error: updateError } = await supabase
+      .from('actions')
+      .update({ status: 'no_show', updated_at: now })
+      .eq('id', action_id)
+      .in('status', NO_SHOW_ELIGIBLE_STATES)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Failed to mark no-show:', updateError)
+      return new Response(JSON.stringify({ error: 'Failed to mark no-show' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!updatedAction) {
+      console.log(`Action ${action_id} status changed concurrently, no-show not applied`)
+      return new Response(JSON.stringify({
+        error: 'Action status changed, please refresh and try again'
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const pickupItemIds = action.pickup_item_ids || []
+    const deliveryItemIds = action.delivery_item_ids || []
+
+    // Revert pickup items to 'home'
+    if (pickupItemIds.length > 0) {
+      const { error: pickupRevertError } = await supabase
+        .from('items')
+        .update({ status: 'home', updated_at: now })
+        .in('id', pickupItemIds)
+        .eq('user_id', action.user_id)
+
+      if (pickupRevertError) {
+        console.error('Failed to revert pickup items:', pickupRevertError)
+        // Continue anyway - no-show is already recorded
+      } else {
+        console.log(`Reverted ${pickupItemIds.length} pickup items to 'home'`)
+      }
+    }
+
+    // Revert delivery items to 'stored'
+    if (deliveryItemIds.length > 0) {
+      const { error: deliveryRevertError } = await supabase
+        .from('items')
+        .update({ status: 'stored', updated_at: now })
+        .in('id', deliveryItemIds)
+        .eq('user_id', action.user_id)
+
+      if (deliveryRevertError) {
+        console.error('Failed to revert delivery items:', deliveryRevertError)
+        // Continue anyway - no-show is already recorded
+      } else {
+        console.log(`Reverted ${deliveryItemIds.length} delivery items to 'stored'`)
+      }
+    }
+
+    // Increment customer no-show count (atomic in the database)
+    const { data: noShowCount, error: countError } = await supabase
+      .rpc('adjust_no_show_count', { p_user_id: action.user_id, p_delta: 1 })
+
+    if (countError) {
+      console.error('Failed to update no_show_count:', countError)
+    }
+
+    const { error: eventError } = await supabase.rpc('log_booking_event', {
+      p_action_id: action_id,
+      p_event_type: 'no_show',
+      p_metadata: {
+        source: 'staff',
+        previous_status: action.status,
+        pickup_items_reverted: pickupItemIds.length,
+        delivery_items_reverted: deliveryItemIds.length,
+        customer_no_show_count: countError ? null : noShowCount,
+        note: typeof note === 'string' && note.trim() ? note.trim() : null,
+        marked_by: caller.id
+      }
+    })
+
+    if (eventError) {
+      console.error('Failed to log booking event:', eventError)
+    }
+
+    console.log(`No-show recorded for action ${action_id} by staff ${caller.id}`)
+
+    return new Response(JSON.stringify({
+      ok: true,
+      action: updatedAction,
+      customer_no_show_count: countError ? null : noShowCount
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('mark-no-show error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
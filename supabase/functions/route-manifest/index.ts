@@ -0,0 +1,402 @@
+// Storage Valet — Route Manifest Edge Function
+// v1.1 • PDF: characters Helvetica can't encode (emoji, CJK, …) are replaced instead of failing the manifest
+// v1.0 • Daily driver manifest: confirmed/in_progress bookings for a date, in visit order
+//
+// Invocation: POST /functions/v1/route-manifest (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: { "date"?: "YYYY-MM-DD" (service timezone, default today), "format"?: "json" | "csv" | "pdf" (default json) }
+//
+// Each stop: scheduled window, status, service type, customer name/phone,
+// service_address (falls back to the profile's delivery_address), delivery_instructions,
+// and the pickup/delivery item lists (delivery items carry their warehouse location)
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PDFDocument, StandardFonts } from 'npm:pdf-lib@1'
+import { toEncodableText } from '../_shared/pdfText.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Dates are interpreted in the service area's timezone (northern NJ), same as send-email
+const SERVICE_TIMEZONE = 'America/New_York'
+
+const MANIFEST_STATUSES = ['confirmed', 'in_progress']
+const MANIFEST_FORMATS = ['json', 'csv', 'pdf']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// PDF layout (US Letter, points)
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const PAGE_MARGIN = 48
+const LINE_HEIGHT = 14
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ManifestItem {
+  id: string
+  label: string | null
+  category: string | null
+  warehouse_location?: string | null
+}
+
+interface ManifestStop {
+  stop: number
+  action_id: string
+  status: string
+  service_type: string
+  scheduled_start: string
+  scheduled_end: string | null
+  window: string
+  customer_name: string | null
+  phone: string | null
+  service_address: string | null
+  delivery_instructions: string | null
+  pickup_items: ManifestItem[]
+  delivery_items: ManifestItem[]
+}
+
+// YYYY-MM-DD of an instant in the service timezone
+function serviceDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-CA', { timeZone: SERVICE_TIMEZONE })
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { timeZone: SERVICE_TIMEZONE, hour: 'numeric', minute: '2-digit' })
+}
+
+// delivery_address / service_address JSONB → one line
+function formatAddress(address: any): string | null {
+  if (!address) return null
+  if (typeof address === 'string') return address
+  const street = [address.street, address.unit].filter(Boolean).join(' ')
+  const cityLine = [address.city, [address.state, address.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+  return [street, cityLine].filter(Boolean).join(', ') || null
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function itemSummary(items: ManifestItem[]): string {
+  return items
+    .map(item => item.warehouse_location ? `${item.label} [${item.warehouse_location}]` : `${item.label}`)
+    .join('; ')
+}
+
+function buildCsv(stops: ManifestStop[]): string {
+  const header = [
+    'stop', 'window', 'status', 'service_type', 'customer_name', 'phone',
+    'service_address', 'delivery_instructions', 'pickup_items', 'delivery_items', 'action_id',
+  ]
+  const rows = stops.map(stop => [
+    stop.stop, stop.window, stop.status, stop.service_type, stop.customer_name, stop.phone,
+    stop.service_address, stop.delivery_instructions,
+    itemSummary(stop.pickup_items), itemSummary(stop.delivery_items), stop.action_id,
+  ].map(csvCell).join(','))
+  return [header.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+// Greedy word wrap for pdf-lib (no built-in wrapping); text is made drawable with the font first
+function wrapText(text: string, font: any, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of toEncodableText(text, font).split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+async function buildPdf(date: string, stops: ManifestStop[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const maxWidth = PAGE_WIDTH - 2 * PAGE_MARGIN
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - PAGE_MARGIN
+
+  const writeLine = (text: string, options: { bold?: boolean; size?: number; indent?: number } = {}) => {
+    const size = options.size || 10
+    const indent = options.indent || 0
+    const lineFont = options.bold ? boldFont : font
+    for (const line of wrapText(text, lineFont, size, maxWidth - indent)) {
+      if (y - LINE_HEIGHT < PAGE_MARGIN) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+        y = PAGE_HEIGHT - PAGE_MARGIN
+      }
+      y -= size + 4
+      page.drawText(line, { x: PAGE_MARGIN + indent, y, size, font: lineFont })
+    }
+  }
+
+  writeLine(`Route Manifest — ${date}`, { bold: true, size: 16 })
+  writeLine(`${stops.length} stop${stops.length === 1 ? '' : 's'}`)
+  y -= LINE_HEIGHT / 2
+
+  for (const stop of stops) {
+    y -= LINE_HEIGHT / 2
+    writeLine(`${stop.stop}. ${stop.window} — ${stop.service_type.toUpperCase()} (${stop.status})`, { bold: true, size: 12 })
+    writeLine(`${stop.customer_name || 'Unknown customer'}${stop.phone ? ` • ${stop.phone}` : ''}`, { indent: 12 })
+    writeLine(stop.service_address || 'No address on file', { indent: 12 })
+    if (stop.delivery_instructions) {
+      writeLine(`Instructions: ${stop.delivery_instructions}`, { indent: 12 })
+    }
+    if (stop.pickup_items.length > 0) {
+      writeLine(`Pick up (${stop.pickup_items.length}):`, { bold: true, indent: 12 })
+      for (const item of stop.pickup_items) {
+        writeLine(`[ ] ${item.label}`, { indent: 24 })
+      }
+    }
+    if (stop.delivery_items.length > 0) {
+      writeLine(`Deliver (${stop.delivery_items.length}):`, { bold: true, indent: 12 })
+      for (const item of stop.delivery_items) {
+        writeLine(`[ ] ${item.label}${item.warehouse_location ? ` — ${item.warehouse_location}` : ''}`, { indent: 24 })
+      }
+    }
+  }
+
+  return await pdf.save()
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Route-manifest request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request (body optional)
+    let body: any = {}
+    try {
+      const text = await req.text()
+      body = text ? JSON.parse(text) : {}
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const date: string = body.date || serviceDate(new Date().toISOString())
+    if (!DATE_PATTERN.test(date) || isNaN(Date.parse(`${date}T00:00:00Z`))) {
+      return new Response(JSON.stringify({ error: 'date must be YYYY-MM-DD' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const format: string = body.format || 'json'
+    if (!MANIFEST_FORMATS.includes(format)) {
+      return new Response(JSON.stringify({ error: `format must be one of: ${MANIFEST_FORMATS.join(', ')}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Query a padded UTC range, then keep bookings whose start falls on the date in the service timezone
+    const dayStart = new Date(`${date}T00:00:00Z`)
+    const rangeStart = new Date(dayStart.getTime() - 24 * 60 * 60 * 1000).toISOString()
+    const rangeEnd = new Date(dayStart.getTime() + 48 * 60 * 60 * 1000).toISOString()
+
+    const { data: actions, error: actionsError } = await supabase
+      .from('actions')
+      .select('id, user_id, status, service_type, scheduled_start, scheduled_end, service_address, pickup_item_ids, delivery_item_ids')
+      .in('status', MANIFEST_STATUSES)
+      .gte('scheduled_start', rangeStart)
+      .lt('scheduled_start', rangeEnd)
+      .order('scheduled_start', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (actionsError) {
+      console.error('Failed to fetch actions:', actionsError)
+      return new Response(JSON.stringify({ error: 'Failed to fetch bookings' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const dayActions = (actions || []).filter((action: any) => serviceDate(action.scheduled_start) === date)
+
+    // Batch-load customers and items for all stops
+    const userIds = [...new Set(dayActions.map((action: any) => action.user_id))]
+    const itemIds = [...new Set(dayActions.flatMap((action: any) => [
+      ...(action.pickup_item_ids || []),
+      ...(action.delivery_item_ids || []),
+    ]))]
+
+    const profilesByUser = new Map<string, any>()
+    if (userIds.length > 0) {
+      const { data: profiles, error: profilesError } = await supabase
+        .from('customer_profile')
+        .select('user_id, full_name, first_name, last_name, phone, delivery_address, delivery_instructions')
+        .in('user_id', userIds)
+
+      if (profilesError) {
+        console.error('Failed to fetch customer profiles:', profilesError)
+        return new Response(JSON.stringify({ error: 'Failed to fetch customers' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+      for (const profile of profiles || []) profilesByUser.set(profile.user_id, profile)
+    }
+
+    const itemsById = new Map<string, any>()
+    if (itemIds.length > 0) {
+      const { data: items, error: itemsError } = await supabase
+        .from('items')
+        .select('id, label, category, warehouse_location')
+        .in('id', itemIds)
+
+      if (itemsError) {
+        console.error('Failed to fetch items:', itemsError)
+        return new Response(JSON.stringify({ error: 'Failed to fetch items' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+      for (const item of items || []) itemsById.set(item.id, item)
+    }
+
+    const stops: ManifestStop[] = dayActions.map((action: any, index: number) => {
+      const profile = profilesByUser.get(action.user_id)
+      const toItems = (ids: string[] | null, withLocation: boolean): ManifestItem[] =>
+        (ids || [])
+          .map(id => itemsById.get(id))
+          .filter(Boolean)
+          .map((item: any) => ({
+            id: item.id,
+            label: item.label,
+            category: item.category,
+            ...(withLocation && { warehouse_location: item.warehouse_location }),
+          }))
+
+      return {
+        stop: index + 1,
+        action_id: action.id,
+        status: action.status,
+        service_type: action.service_type,
+        scheduled_start: action.scheduled_start,
+        scheduled_end: action.scheduled_end,
+        window: action.scheduled_end
+          ? `${formatTime(action.scheduled_start)} – ${formatTime(action.scheduled_end)}`
+          : formatTime(action.scheduled_start),
+        customer_name: profile?.full_name ||
+          [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') ||
+          null,
+        phone: profile?.phone || null,
+        service_address: formatAddress(action.service_address || profile?.delivery_address),
+        delivery_instructions: profile?.delivery_instructions || null,
+        pickup_items: toItems(action.pickup_item_ids, false),
+        delivery_items: toItems(action.delivery_item_ids, true),
+      }
+    })
+
+    console.log(`Route manifest for ${date}: ${stops.length} stops (${format})`)
+
+    if (format === 'csv') {
+      return new Response(buildCsv(stops), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="route-manifest-${date}.csv"`,
+        }
+      })
+    }
+
+    if (format === 'pdf') {
+      const pdfBytes = await buildPdf(date, stops)
+      return new Response(pdfBytes, {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="route-manifest-${date}.pdf"`,
+        }
+      })
+    }
+
+    return new Response(JSON.stringify({ date, timezone: SERVICE_TIMEZONE, stop_count: stops.length, stops }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('route-manifest error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,303 @@
+// Storage Valet — Send Appointment Reminders Edge Function
+// v1.1 • SMS from the local stand-in no longer counts as sent (email-less customers are retried, not marked reminded)
+// v1.0 • Scheduled 24-hour and 2-hour reminders (email + SMS) for confirmed bookings
+//
+// Invocation: POST /functions/v1/send-appointment-reminders (scheduled, e.g. every 15 minutes via pg_cron + pg_net)
+// Auth: service role key in Authorization header (not callable by customers or staff JWTs)
+// Body: none
+//
+// For every confirmed booking starting within the next 24 hours:
+// - 24h reminder when ≤ 24h away (skipped if the booking is already inside the 2h window)
+// - 2h reminder when ≤ 2h away
+// Each reminder includes the date/time window, service address and item count,
+// and is sent at most once per booking and appointment time (deduped via appointment_reminder_*_sent
+// booking_events, which record scheduled_start).
+//
+// SMS client: Twilio when TWILIO_ACCOUNT_SID/TWILIO_AUTH_TOKEN/TWILIO_FROM_NUMBER are set,
+// otherwise a local stand-in that only logs (its messages don't count as sent). Customers without a phone
+// get email only.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { formatServiceWindow } from '../_shared/serviceTime.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const HOUR_MS = 60 * 60 * 1000
+
+type ReminderEmailType = 'appointment_reminder_24h' | 'appointment_reminder_2h'
+
+// Ordered furthest-first; a booking only gets the nearest reminder that is due
+const REMINDERS: Array<{ key: '24h' | '2h'; hoursBefore: number; emailType: ReminderEmailType; eventType: string }> = [
+  { key: '24h', hoursBefore: 24, emailType: 'appointment_reminder_24h', eventType: 'appointment_reminder_24h_sent' },
+  { key: '2h', hoursBefore: 2, emailType: 'appointment_reminder_2h', eventType: 'appointment_reminder_2h_sent' },
+]
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Validate caller is using service role key (scheduler only)
+function validateServiceRoleAuth(req: Request): boolean {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) return false
+
+  const token = authHeader.replace('Bearer ', '')
+  return token === supabaseServiceKey
+}
+
+// service_address / delivery_address JSONB → one line
+function formatAddress(address: any): string | null {
+  if (!address) return null
+  if (typeof address === 'string') return address
+  const street = [address.street, address.unit].filter(Boolean).join(' ')
+  const cityLine = [address.city, [address.state, address.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+  return [street, cityLine].filter(Boolean).join(', ') || null
+}
+
+// Send transactional email via send-email edge function
+async function sendTransactionalEmail(
+  type: ReminderEmailType,
+  to: string,
+  data: { firstName?: string; serviceType?: string; scheduledStart?: string; scheduledEnd?: string; serviceAddress?: string; itemCount?: number }
+): Promise<boolean> {
+  try {
+    const sendEmailUrl = `${supabaseUrl}/functions/v1/send-email`
+    const response = await fetch(sendEmailUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({ type, to, data }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      console.error(`Failed to send ${type} email to ${to}:`, error)
+      return false
+    }
+    const result = await response.json()
+    console.log(`Sent ${type} email to ${to} (id: ${result.id})`)
+    return true
+  } catch (error) {
+    // Non-blocking: log but don't throw
+    console.error(`Error sending ${type} email to ${to}:`, error)
+    return false
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// SMS CLIENT (pluggable: Twilio API or local stand-in)
+// ═══════════════════════════════════════════════════════════════════════
+interface SmsClient {
+  // Resolves true once the message was handed to a provider, false if nothing was sent
+  sendMessage(to: string, body: string): Promise<boolean>
+}
+
+// Twilio Messages API: POST /2010-04-01/Accounts/{sid}/Messages.json (form-encoded, basic auth)
+function createTwilioSmsClient(accountSid: string, authToken: string, fromNumber: string): SmsClient {
+  return {
+    async sendMessage(to: string, body: string) {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: fromNumber, Body: body }),
+      })
+      if (!response.ok) {
+        throw new Error(`Twilio send failed (${response.status}): ${await response.text()}`)
+      }
+      return true
+    },
+  }
+}
+
+// Local stand-in: records what would have been sent (nothing reaches the customer)
+function createLocalSmsClient(): SmsClient {
+  return {
+    sendMessage(to: string, body: string) {
+      console.log(`[sms stand-in] sendMessage ${to}: ${body}`)
+      return Promise.resolve(false)
+    },
+  }
+}
+
+function createSmsClient(): SmsClient {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID')
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN')
+  const fromNumber = Deno.env.get('TWILIO_FROM_NUMBER')
+  if (!accountSid || !authToken || !fromNumber) return createLocalSmsClient()
+  return createTwilioSmsClient(accountSid, authToken, fromNumber)
+}
+
+function buildSmsBody(
+  reminderKey: '24h' | '2h',
+  action: any,
+  address: string | null,
+  itemCount: number
+): string {
+  const { date, window } = formatServiceWindow(action.scheduled_start, action.scheduled_end || undefined)
+  const when = reminderKey === '24h' ? `${date}, ${window}` : `today, ${window}`
+  const items = itemCount === 1 ? '1 item' : `${itemCount} items`
+  return `Storage Valet reminder: your ${action.service_type} is ${when}` +
+    (address ? ` at ${address}` : '') +
+    ` (${items}). Reply STOP to opt out.`
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // SECURITY: scheduler calls with the service role key
+    if (!validateServiceRoleAuth(req)) {
+      console.error('Unauthorized send-appointment-reminders attempt (missing or invalid service role key)')
+      return new Response(JSON.stringify({ error: 'Unauthorized: service role key required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const now = Date.now()
+    const horizon = new Date(now + REMINDERS[0].hoursBefore * HOUR_MS).toISOString()
+
+    const { data: upcomingActions, error: actionsError } = await supabase
+      .from('actions')
+      .select('id, user_id, service_type, scheduled_start, scheduled_end, service_address, pickup_item_ids, delivery_item_ids')
+      .eq('status', 'confirmed')
+      .gt('scheduled_start', new Date(now).toISOString())
+      .lte('scheduled_start', horizon)
+      .order('scheduled_start', { ascending: true })
+
+    if (actionsError) {
+      console.error('Failed to fetch confirmed bookings:', actionsError)
+      return new Response(JSON.stringify({ error: 'Failed to fetch bookings' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const actions = upcomingActions || []
+    console.log(`Found ${actions.length} confirmed bookings within ${REMINDERS[0].hoursBefore}h`)
+
+    const summary = { checked: actions.length, reminders_24h: 0, reminders_2h: 0, emails: 0, sms: 0 }
+    if (actions.length === 0) {
+      return new Response(JSON.stringify({ success: true, ...summary }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const actionIds = actions.map((action: any) => action.id)
+    const userIds = [...new Set(actions.map((action: any) => action.user_id))]
+
+    // Dedupe via booking_events, per appointment time: a booking moved after a reminder
+    // gets reminded again for its new time
+    const { data: sentEvents, error: sentError } = await supabase
+      .from('booking_events')
+      .select('action_id, event_type, metadata')
+      .in('event_type', REMINDERS.map(reminder => reminder.eventType))
+      .in('action_id', actionIds)
+
+    if (sentError) {
+      // Without the dedupe set we'd re-send every reminder; bail out this run
+      console.error('Failed to fetch reminder events:', sentError)
+      return new Response(JSON.stringify({ error: 'Failed to fetch reminder history' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+    const reminderKey = (actionId: string, eventType: string, scheduledStart: string) =>
+      `${actionId}:${eventType}:${new Date(scheduledStart).getTime()}`
+    const sent = new Set(
+      (sentEvents || [])
+        .filter((event: any) => event.metadata?.scheduled_start)
+        .map((event: any) => reminderKey(event.action_id, event.event_type, event.metadata.scheduled_start))
+    )
+
+    const { data: profiles } = await supabase
+      .from('customer_profile')
+      .select('user_id, email, first_name, phone, delivery_address')
+      .in('user_id', userIds)
+    const profilesByUser = new Map((profiles || []).map((profile: any) => [profile.user_id, profile]))
+
+    const sms = createSmsClient()
+
+    for (const action of actions) {
+      const hoursUntil = (new Date(action.scheduled_start).getTime() - now) / HOUR_MS
+
+      // Nearest due reminder only (a booking made 90 minutes out gets just the 2h one)
+      const reminder = [...REMINDERS].reverse().find(r => hoursUntil <= r.hoursBefore)
+      if (!reminder || sent.has(reminderKey(action.id, reminder.eventType, action.scheduled_start))) continue
+
+      const profile: any = profilesByUser.get(action.user_id)
+      const address = formatAddress(action.service_address || profile?.delivery_address)
+      const itemCount = (action.pickup_item_ids || []).length + (action.delivery_item_ids || []).length
+
+      let emailSent = false
+      if (profile?.email) {
+        emailSent = await sendTransactionalEmail(reminder.emailType, profile.email, {
+          firstName: profile.first_name || undefined,
+          serviceType: action.service_type,
+          scheduledStart: action.scheduled_start,
+          scheduledEnd: action.scheduled_end || undefined,
+          serviceAddress: address || undefined,
+          itemCount,
+        })
+      }
+
+      let smsSent = false
+      if (profile?.phone) {
+        try {
+          smsSent = await sms.sendMessage(profile.phone, buildSmsBody(reminder.key, action, address, itemCount))
+        } catch (smsError) {
+          console.error(`Failed to send ${reminder.key} SMS for action ${action.id}:`, smsError)
+        }
+      }
+
+      if (!emailSent && !smsSent) {
+        // Nothing went out; leave unlogged so the next run retries
+        console.warn(`No ${reminder.key} reminder delivered for action ${action.id}, will retry`)
+        continue
+      }
+
+      await supabase.rpc('log_booking_event', {
+        p_action_id: action.id,
+        p_event_type: reminder.eventType,
+        p_metadata: {
+          source: 'send-appointment-reminders',
+          scheduled_start: action.scheduled_start,
+          email_sent: emailSent,
+          sms_sent: smsSent
+        }
+      })
+
+      if (reminder.key === '24h') summary.reminders_24h++
+      else summary.reminders_2h++
+      if (emailSent) summary.emails++
+      if (smsSent) summary.sms++
+    }
+
+    console.log(`Appointment reminders sweep: ${JSON.stringify(summary)}`)
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('send-appointment-reminders error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
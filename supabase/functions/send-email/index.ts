@@ -1,10 +1,18 @@
 // Storage Valet — Send Email Edge Function
+// v2.6 • Missing template configuration reported separately from unknown types
+// v2.5 • Added trial_ending (trial end date + billing portal link)
+// v2.4 • Added appointment_reminder_24h / appointment_reminder_2h (service address variable)
+// v2.3 • Added items_reminder (pending_items bookings, with item selection deadline)
+// v2.2 • Added booking_canceled (staff cancellations with customer-facing reason)
+// v2.1 • Added booking_confirmed (service date/window variables)
 // v2.0 • Refactored to use Resend Template API (templates managed in Resend dashboard)
 // v1.1 • Added service role authentication (security fix)
 // v1.0 • Resend API integration for transactional emails
-// Triggered internally by stripe-webhook and complete-service
+// Triggered internally by stripe-webhook, complete-service, confirm-booking, staff-booking-cancel,
+// expire-pending-bookings and send-appointment-reminders
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { formatServiceWindow, SERVICE_TIMEZONE } from '../_shared/serviceTime.ts'
 
 const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
 const RESEND_API_URL = 'https://api.resend.com/emails'
@@ -21,6 +29,13 @@ const TEMPLATE_IDS: Record<EmailType, string> = {
   pickup_complete: 'e7327dc3-5e7b-47f1-994c-fbbd5b0a0e6f',
   delivery_complete: '197827cf-1c6c-458d-9d68-03b2e75c78d3',
   payment_failed: 'c22b0071-cfaf-4d1c-a38c-18dc5655c4b8',
+  // Newer templates: set the ID via env once the template exists in Resend
+  booking_confirmed: Deno.env.get('RESEND_TEMPLATE_BOOKING_CONFIRMED') || '',
+  booking_canceled: Deno.env.get('RESEND_TEMPLATE_BOOKING_CANCELED') || '',
+  items_reminder: Deno.env.get('RESEND_TEMPLATE_ITEMS_REMINDER') || '',
+  appointment_reminder_24h: Deno.env.get('RESEND_TEMPLATE_APPOINTMENT_REMINDER_24H') || '',
+  appointment_reminder_2h: Deno.env.get('RESEND_TEMPLATE_APPOINTMENT_REMINDER_2H') || '',
+  trial_ending: Deno.env.get('RESEND_TEMPLATE_TRIAL_ENDING') || '',
 }
 
 // Subject lines for each email type
@@ -29,6 +44,12 @@ const SUBJECT_LINES: Record<EmailType, string> = {
   pickup_complete: 'Your Items Are Safely With Us!',
   delivery_complete: 'Your Items Are Home!',
   payment_failed: 'Action Needed: Payment Issue',
+  booking_confirmed: 'Your Appointment Is Confirmed',
+  booking_canceled: 'Your Appointment Has Been Canceled',
+  items_reminder: 'Action Needed: Choose Items for Your Appointment',
+  appointment_reminder_24h: 'Reminder: Your Appointment Is Tomorrow',
+  appointment_reminder_2h: 'Reminder: We Arrive Soon',
+  trial_ending: 'Your Free Trial Ends Soon',
 }
 
 // CORS headers for internal function calls
@@ -47,7 +68,17 @@ function validateServiceRoleAuth(req: Request): boolean {
 }
 
 // Email template types
-type EmailType = 'welcome' | 'pickup_complete' | 'delivery_complete' | 'payment_failed'
+type EmailType =
+  | 'welcome'
+  | 'pickup_complete'
+  | 'delivery_complete'
+  | 'payment_failed'
+  | 'booking_confirmed'
+  | 'booking_canceled'
+  | 'items_reminder'
+  | 'appointment_reminder_24h'
+  | 'appointment_reminder_2h'
+  | 'trial_ending'
 
 interface EmailRequest {
   type: EmailType
@@ -56,6 +87,14 @@ interface EmailRequest {
     firstName?: string
     itemCount?: number
     itemNames?: string[]
+    serviceType?: string
+    scheduledStart?: string  // ISO-8601
+    scheduledEnd?: string    // ISO-8601
+    cancelReason?: string    // Customer-facing sentence
+    itemsDeadline?: string   // ISO-8601, items_reminder only
+    serviceAddress?: string  // One-line address, appointment reminders
+    trialEndDate?: string    // ISO-8601, trial_ending only
+    billingPortalUrl?: string
   }
 }
 
@@ -81,6 +120,52 @@ function buildTemplateVariables(type: EmailType, data: EmailRequest['data']): Re
     }
   }
 
+  // Appointment variables for booking emails
+  if (
+    type === 'booking_confirmed' ||
+    type === 'booking_canceled' ||
+    type === 'items_reminder' ||
+    type === 'appointment_reminder_24h' ||
+    type === 'appointment_reminder_2h'
+  ) {
+    if (data.scheduledStart) {
+      const { date, window } = formatServiceWindow(data.scheduledStart, data.scheduledEnd)
+      variables.SERVICE_DATE = date
+      variables.SERVICE_WINDOW = window
+    }
+    if (data.serviceType) {
+      variables.SERVICE_TYPE = data.serviceType
+    }
+    if (data.itemCount !== undefined) {
+      variables.ITEM_COUNT = data.itemCount
+    }
+    if (data.cancelReason) {
+      variables.CANCEL_REASON = data.cancelReason
+    }
+    if (data.serviceAddress) {
+      variables.SERVICE_ADDRESS = data.serviceAddress
+    }
+    if (data.itemsDeadline) {
+      const { date, window } = formatServiceWindow(data.itemsDeadline)
+      variables.ITEMS_DEADLINE = `${date} at ${window}`
+    }
+  }
+
+  // Trial variables
+  if (type === 'trial_ending') {
+    if (data.trialEndDate) {
+      variables.TRIAL_END_DATE = new Date(data.trialEndDate).toLocaleDateString('en-US', {
+        timeZone: SERVICE_TIMEZONE,
+        month: 'long',
+        day: 'numeric',
+        year: 'numeric',
+      })
+    }
+    if (data.billingPortalUrl) {
+      variables.BILLING_PORTAL_URL = data.billingPortalUrl
+    }
+  }
+
   return variables
 }
 
@@ -91,10 +176,11 @@ async function sendEmail(request: EmailRequest): Promise<{ success: boolean; id?
     return { success: false, error: 'Email service not configured' }
   }
 
+  // Types are validated before sending, so a missing ID means the RESEND_TEMPLATE_* env var isn't set
   const templateId = TEMPLATE_IDS[request.type]
   if (!templateId) {
     console.error(`No template ID configured for type: ${request.type}`)
-    return { success: false, error: `Unknown email type: ${request.type}` }
+    return { success: false, error: `Email template not configured for type: ${request.type}` }
   }
 
   try {
@@ -142,7 +228,7 @@ serve(async (req) => {
 
   try {
     // SECURITY: Validate service role authentication
-    // Only internal edge functions (stripe-webhook, complete-service) should call this
+    // Only internal edge functions (stripe-webhook, complete-service, etc.) should call this
     if (!validateServiceRoleAuth(req)) {
       console.error('Unauthorized send-email attempt (missing or invalid service role key)')
       return new Response(JSON.stringify({ error: 'Unauthorized: service role key required' }), {
@@ -162,7 +248,18 @@ serve(async (req) => {
     }
 
     // Validate email type
-    const validTypes: EmailType[] = ['welcome', 'pickup_complete', 'delivery_complete', 'payment_failed']
+    const validTypes: EmailType[] = [
+      'welcome',
+      'pickup_complete',
+      'delivery_complete',
+      'payment_failed',
+      'booking_confirmed',
+      'booking_canceled',
+      'items_reminder',
+      'appointment_reminder_24h',
+      'appointment_reminder_2h',
+      'trial_ending',
+    ]
     if (!validTypes.includes(body.type)) {
       return new Response(JSON.stringify({ error: `Invalid email type. Valid types: ${validTypes.join(', ')}` }), {
         status: 400,
@@ -0,0 +1,325 @@
+// Storage Valet — Staff Booking Cancel Edge Function
+// v1.0 • Staff/admin cancellation (incl. confirmed and in_progress) with reason codes
+//
+// Invocation: POST /functions/v1/staff-booking-cancel (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: {
+//   "action_id": "uuid",
+//   "reason_code": "weather" | "customer_no_show" | "vehicle_issue" | "other",
+//   "reason_note"?: "text" (required for 'other'),
+//   "notify_customer"?: boolean (default false)
+// }
+//
+// On cancel (same item handling as booking-cancel):
+// - Items in pickup_item_ids → revert to 'home'
+// - Items in delivery_item_ids → revert to 'stored'
+// - Booking status → 'canceled'
+//
+// Idempotent: Canceling twice returns 200 (no error, no second email)
+// Does NOT call Calendly API (webhooks reconcile if needed)
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { STAFF_CANCEL_REASONS } from '../_shared/staffCancelReasons.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// States where staff can cancel (customers are limited to the pending states)
+const STAFF_CANCELABLE_STATES = ['pending_items', 'pending_confirmation', 'confirmed', 'in_progress']
+
+// Send transactional email via send-email edge function (fire-and-forget)
+async function sendTransactionalEmail(
+  type: 'booking_canceled',
+  to: string,
+  data: { firstName?: string; itemCount?: number; scheduledStart?: string; scheduledEnd?: string; cancelReason?: string }
+) {
+  try {
+    const sendEmailUrl = `${supabaseUrl}/functions/v1/send-email`
+    const response = await fetch(sendEmailUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({ type, to, data }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      console.error(`Failed to send ${type} email to ${to}:`, error)
+    } else {
+      const result = await response.json()
+      console.log(`Sent ${type} email to ${to} (id: ${result.id})`)
+    }
+  } catch (error) {
+    // Non-blocking: log but don't throw
+    console.error(`Error sending ${type} email to ${to}:`, error)
+  }
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff-booking-cancel request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { action_id, reason_code, reason_note, notify_customer = false } = body
+    if (!action_id) {
+      return new Response(JSON.stringify({ error: 'action_id required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (typeof reason_code !== 'string' || !Object.hasOwn(STAFF_CANCEL_REASONS, reason_code)) {
+      return new Response(JSON.stringify({
+        error: `reason_code required (one of: ${Object.keys(STAFF_CANCEL_REASONS).join(', ')})`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const reasonNote: string | null = typeof reason_note === 'string' && reason_note.trim() ? reason_note.trim() : null
+    if (reason_code === 'other' && !reasonNote) {
+      return new Response(JSON.stringify({ error: "reason_note required when reason_code is 'other'" }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Fetch action
+    const { data: action, error: actionError } = await supabase
+      .from('actions')
+      .select('id, user_id, status, scheduled_start, scheduled_end, pickup_item_ids, delivery_item_ids')
+      .eq('id', action_id)
+      .single()
+
+    if (actionError || !action) {
+      return new Response(JSON.stringify({ error: 'Action not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Idempotent: if already canceled, return success
+    if (action.status === 'canceled') {
+      console.log(`Action ${action_id} already canceled, returning success (idempotent)`)
+      return new Response(JSON.stringify({ ok: true, status: 'canceled' }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!STAFF_CANCELABLE_STATES.includes(action.status)) {
+      return new Response(JSON.stringify({
+        error: `Cannot cancel: action status is '${action.status}' (expected one of: ${STAFF_CANCELABLE_STATES.join(', ')})`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Mark action as canceled (ATOMIC: only if still cancelable)
+    // Done before reverting items so a concurrent completion can't be undone
+    const now = new Date().toISOString()
+    const { data: canceledAction, error: cancelError } = await supabase
+      .from('actions')
+      .update({ status: 'canceled', updated_at: now })
+      .eq('id', action_id)
+      .in('status', STAFF_CANCELABLE_STATES)
+      .select('id')
+      .maybeSingle()
+
+    if (cancelError) {
+      console.error('Failed to cancel action:', cancelError)
+      return new Response(JSON.stringify({ error: 'Failed to cancel booking' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!canceledAction) {
+      console.log(`Action ${action_id} status changed concurrently, cancel not applied`)
+      return new Response(JSON.stringify({
+        error: 'Action status changed, please refresh and try again'
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const pickupItemIds = action.pickup_item_ids || []
+    const deliveryItemIds = action.delivery_item_ids || []
+
+    console.log(`Reverting ${pickupItemIds.length} pickup items to 'home', ${deliveryItemIds.length} delivery items to 'stored'`)
+
+    // Revert pickup items to 'home'
+    if (pickupItemIds.length > 0) {
+      const { error: pickupRevertError } = await supabase
+        .from('items')
+        .update({ status: 'home', updated_at: now })
+        .in('id', pickupItemIds)
+        .eq('user_id', action.user_id)
+
+      if (pickupRevertError) {
+        console.error('Failed to revert pickup items:', pickupRevertError)
+        // Continue anyway - booking is already canceled
+      } else {
+        console.log(`Reverted ${pickupItemIds.length} pickup items to 'home'`)
+      }
+    }
+
+    // Revert delivery items to 'stored'
+    if (deliveryItemIds.length > 0) {
+      const { error: deliveryRevertError } = await supabase
+        .from('items')
+        .update({ status: 'stored', updated_at: now })
+        .in('id', deliveryItemIds)
+        .eq('user_id', action.user_id)
+
+      if (deliveryRevertError) {
+        console.error('Failed to revert delivery items:', deliveryRevertError)
+        // Continue anyway - booking is already canceled
+      } else {
+        console.log(`Reverted ${deliveryItemIds.length} delivery items to 'stored'`)
+      }
+    }
+
+    // Notify customer (non-blocking)
+    let customerNotified = false
+    if (notify_customer === true) {
+      const { data: customerProfile } = await supabase
+        .from('customer_profile')
+        .select('email, first_name')
+        .eq('user_id', action.user_id)
+        .maybeSingle()
+
+      if (customerProfile?.email) {
+        sendTransactionalEmail('booking_canceled', customerProfile.email, {
+          firstName: customerProfile.first_name || undefined,
+          itemCount: pickupItemIds.length + deliveryItemIds.length,
+          scheduledStart: action.scheduled_start || undefined,
+          scheduledEnd: action.scheduled_end || undefined,
+          cancelReason: STAFF_CANCEL_REASONS[reason_code],
+        })
+        customerNotified = true
+      } else {
+        console.log(`No customer email found for user ${action.user_id}, skipping cancellation email`)
+      }
+    }
+
+    const { error: eventError } = await supabase.rpc('log_booking_event', {
+      p_action_id: action_id,
+      p_event_type: 'staff_booking_canceled',
+      p_metadata: {
+        previous_status: action.status,
+        reason_code,
+        reason_note: reasonNote,
+        pickup_items_reverted: pickupItemIds.length,
+        delivery_items_reverted: deliveryItemIds.length,
+        customer_notified: customerNotified,
+        canceled_by: caller.id
+      }
+    })
+
+    if (eventError) {
+      console.error('Failed to log booking event:', eventError)
+    }
+
+    console.log(`Action ${action_id} canceled by staff ${caller.id} (reason: ${reason_code})`)
+
+    return new Response(JSON.stringify({
+      ok: true,
+      status: 'canceled',
+      reason_code,
+      customer_notified: customerNotified
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('staff-booking-cancel error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,212 @@
+// Storage Valet — Start Service Edge Function
+// v1.0 • Driver arrival: moves a confirmed booking into in_progress
+//
+// Invocation: POST /functions/v1/start-service (Edge Function)
+// Auth: JWT required; caller must be in sv.staff
+// Body: { "action_id": "uuid", "arrived_at"?: "ISO-8601 timestamp" }
+//
+// Transition: confirmed → in_progress (atomic, only if still confirmed)
+// Records the driver (caller) and arrival time in booking_events
+// Idempotent: starting an in_progress action returns 200 without a second event
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Require authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create user client to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Start-service request from user: ${caller.id}`)
+
+    // Service role client for privileged operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // SERVER-SIDE STAFF CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: staffErr } = await supabase
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .maybeSingle()
+
+    if (staffErr) {
+      console.error('Staff check query failed:', staffErr)
+      return new Response(JSON.stringify({ error: `Staff check failed: ${staffErr.message}` }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (!staffRecord) {
+      console.error('Staff check failed: User not in sv.staff table')
+      return new Response(JSON.stringify({ error: 'Forbidden: staff only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.log(`Staff verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { action_id, arrived_at } = body
+    if (!action_id) {
+      return new Response(JSON.stringify({ error: 'action_id required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Arrival time defaults to now; drivers offline at the door can send it later
+    const arrivedAt = arrived_at ? new Date(arrived_at) : new Date()
+    if (isNaN(arrivedAt.getTime())) {
+      return new Response(JSON.stringify({ error: 'arrived_at must be a valid timestamp' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Fetch action
+    const { data: action, error: actionError } = await supabase
+      .from('actions')
+      .select('id, status, service_type')
+      .eq('id', action_id)
+      .single()
+
+    if (actionError || !action) {
+      return new Response(JSON.stringify({ error: 'Action not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Idempotent: already started
+    if (action.status === 'in_progress') {
+      console.log(`Action ${action_id} already in_progress, returning success (idempotent)`)
+      return new Response(JSON.stringify({ ok: true, already_started: true, status: 'in_progress' }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    if (action.status !== 'confirmed') {
+      return new Response(JSON.stringify({
+        error: `Cannot start: action status is '${action.status}' (expected 'confirmed')`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Mark action as in_progress (ATOMIC: only if still confirmed)
+    const { data: updatedAction, error: startError } = await supabase
+      .from('actions')
+      .update({
+        status: 'in_progress',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', action_id)
+      .eq('status', 'confirmed')
+      .select()
+      .maybeSingle()
+
+    if (startError) {
+      console.error('Failed to start action:', startError)
+      return new Response(JSON.stringify({ error: 'Failed to start service' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // If no row returned, a concurrent call changed the status first
+    if (!updatedAction) {
+      console.log(`Action ${action_id} no longer confirmed (status changed concurrently)`)
+      return new Response(JSON.stringify({
+        error: 'Action status changed, please refresh and try again'
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const { error: eventError } = await supabase.rpc('log_booking_event', {
+      p_action_id: action_id,
+      p_event_type: 'service_started',
+      p_metadata: {
+        service_type: action.service_type,
+        previous_status: action.status,
+        driver_id: caller.id,
+        arrived_at: arrivedAt.toISOString()
+      }
+    })
+
+    if (eventError) {
+      console.error('Failed to log booking event:', eventError)
+    }
+
+    console.log(`Service started: ${action.service_type} for action ${action_id} by driver ${caller.id}`)
+
+    return new Response(JSON.stringify({
+      ok: true,
+      action: updatedAction,
+      message: `Service started: ${action.service_type}`
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('start-service error:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
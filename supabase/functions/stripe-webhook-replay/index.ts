@@ -0,0 +1,193 @@
+// Storage Valet — Stripe Webhook Replay Edge Function
+// v1.0 • Admin replay of failed (dead-lettered) or missed Stripe events
+// CTO Mandate: Server-side auth check required (not just UI gating)
+//
+// Invocation: POST /functions/v1/stripe-webhook-replay (Edge Function)
+// Auth: JWT required; caller must be an admin in sv.staff
+// Body: { "event_id": "evt_...", "fetch_from_stripe"?: boolean }
+//
+// Source: the payload stored in stripe_webhook_failures, or (fetch_from_stripe, or no stored
+// entry) the event fetched by id from Stripe — only events from the last 30 days are available.
+// The event is forwarded to stripe-webhook with the service role key, so it runs through the
+// same handler switch and idempotency check (check_stripe_webhook_event) as live deliveries.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'npm:stripe@17'
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+})
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase clients
+    // User client - to verify caller identity
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    })
+    // Service client - for admin operations
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get caller's user ID
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      console.error('Auth error:', authError)
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`Stripe webhook replay request from user: ${caller.id}`)
+
+    // SERVER-SIDE AUTH CHECK (CTO mandate - not just UI gating)
+    // CRITICAL: Staff table is in sv schema, not public
+    const { data: staffRecord, error: adminCheckError } = await supabaseAdmin
+      .schema('sv')
+      .from('staff')
+      .select('role')
+      .eq('user_id', caller.id)
+      .eq('role', 'admin')
+      .maybeSingle()
+
+    if (adminCheckError) {
+      console.error('Admin check query failed:', adminCheckError)
+      return new Response(
+        JSON.stringify({ error: `Staff check failed: ${adminCheckError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!staffRecord) {
+      console.error('Admin check failed: User not in sv.staff or not admin role')
+      return new Response(
+        JSON.stringify({ error: 'Access denied: Admin role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`Admin verified: ${caller.id} (role: ${staffRecord.role})`)
+
+    // Parse request body
+    const body = await req.json()
+    const eventId: string | undefined = body.event_id
+
+    if (!eventId || typeof eventId !== 'string' || !eventId.startsWith('evt_')) {
+      return new Response(
+        JSON.stringify({ error: 'event_id (evt_...) is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Load the event: dead-letter payload first, Stripe API otherwise
+    let event: Stripe.Event | null = null
+    let source: 'dead_letter' | 'stripe' = 'dead_letter'
+
+    if (body.fetch_from_stripe !== true) {
+      const { data: failure, error: failureError } = await supabaseAdmin
+        .from('stripe_webhook_failures')
+        .select('payload, attempt_count, resolved_at')
+        .eq('event_id', eventId)
+        .maybeSingle()
+
+      if (failureError) {
+        console.error('Failed to read dead-letter queue:', failureError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to read dead-letter queue' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (failure) {
+        console.log(`Loaded ${eventId} from dead-letter queue (attempts: ${failure.attempt_count}, resolved: ${failure.resolved_at || 'no'})`)
+        event = failure.payload as Stripe.Event
+      }
+    }
+
+    if (!event) {
+      source = 'stripe'
+      try {
+        event = await stripe.events.retrieve(eventId)
+      } catch (err) {
+        console.error(`Failed to fetch ${eventId} from Stripe:`, err.message)
+        return new Response(
+          JSON.stringify({ error: `Event not found in dead-letter queue or Stripe: ${err.message}` }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    console.log(`Replaying ${eventId} (${event.type}) from ${source} for admin ${caller.id}`)
+
+    // Forward to stripe-webhook as an internal replay (service role key instead of Stripe signature)
+    const response = await fetch(`${supabaseUrl}/functions/v1/stripe-webhook`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({ event }),
+    })
+
+    const resultText = await response.text()
+    let result: any
+    try {
+      result = JSON.parse(resultText)
+    } catch {
+      result = { message: resultText }
+    }
+
+    if (!response.ok) {
+      console.error(`Replay of ${eventId} failed (${response.status}):`, resultText)
+      return new Response(
+        JSON.stringify({ error: 'Replay failed', event_id: eventId, source, details: result }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`Replay of ${eventId} succeeded${result.duplicate ? ' (already processed)' : ''}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        event_id: eventId,
+        event_type: event.type,
+        source,
+        duplicate: result.duplicate === true
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('stripe-webhook-replay error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -1,4 +1,11 @@
 // Storage Valet — Stripe Webhook Edge Function
+// v4.7 • Subscription events tied on created time apply the subscription re-fetched from Stripe
+// v4.6 • Refunds tracked per charge (stripe_charge_refunds), disputes per dispute id (stripe_disputes)
+// v4.5 • Subscriptions started after first pickup close any pending subscription_start_requests
+// v4.4 • Dead-letter queue (stripe_webhook_failures) + internal replays from stripe-webhook-replay
+// v4.3 • Out-of-order protection: stale subscription events skipped; invoice handlers use the subscription's status
+// v4.2 • charge.refunded clears needs_manual_refund + records refunds; disputes put the account on hold
+// v4.1 • customer.subscription.trial_will_end: trial_ending email + trial_ending_reminder_at
 // v4.0 • Billing v2: Full trial lifecycle support (trialing status, trial_end_at, cancel tracking)
 // v3.11 • Added transactional email sending via Resend (welcome, payment_failed)
 // v3.10 • Made setup_fee_paid/setup_fee_amount conditional on isSetupFee (future-proof)
@@ -29,11 +36,20 @@ const SERVICE_AREA_ZIPS = [
   '07307', '07308', '07310', '07311', '07047'
 ]
 
+// Where trial_ending emails send customers to manage billing.
+// Portal sessions are short-lived, so link to the app page that opens one (create-portal-session).
+// Without APP_URL the email goes out without the link.
+const APP_URL = Deno.env.get('APP_URL')
+const BILLING_PORTAL_URL = APP_URL ? `${APP_URL}/account` : undefined
+if (!APP_URL) {
+  console.error('APP_URL not configured: trial_ending emails will not include the billing link')
+}
+
 // Send transactional email via send-email edge function (fire-and-forget)
 async function sendTransactionalEmail(
-  type: 'welcome' | 'pickup_complete' | 'delivery_complete' | 'payment_failed',
+  type: 'welcome' | 'pickup_complete' | 'delivery_complete' | 'payment_failed' | 'trial_ending',
   to: string,
-  data: { firstName?: string; itemCount?: number }
+  data: { firstName?: string; itemCount?: number; trialEndDate?: string; billingPortalUrl?: string }
 ) {
   try {
     const sendEmailUrl = `${supabaseUrl}/functions/v1/send-email`
@@ -59,29 +75,156 @@ async function sendTransactionalEmail(
   }
 }
 
+// Process event based on type
+// Shared by live deliveries and replays (stripe-webhook-replay) so both run the same handlers
+async function processEvent(supabase: any, event: Stripe.Event) {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session
+      await handleCheckoutCompleted(supabase, session, event.id, event.created)
+      break
+    }
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription
+      await handleSubscriptionChange(supabase, subscription, event.id, event.created)
+      break
+    }
+    case 'customer.subscription.trial_will_end': {
+      const subscription = event.data.object as Stripe.Subscription
+      await handleTrialWillEnd(supabase, subscription)
+      break
+    }
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription
+      await handleSubscriptionDeleted(supabase, subscription, event.id, event.created)
+      break
+    }
+    case 'invoice.payment_succeeded': {
+      const invoice = event.data.object as Stripe.Invoice
+      await handleInvoicePaymentSucceeded(supabase, invoice, event.id, event.created)
+      break
+    }
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice
+      await handleInvoicePaymentFailed(supabase, invoice, event.id, event.created)
+      break
+    }
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge
+      await handleChargeRefunded(supabase, charge)
+      break
+    }
+    case 'charge.dispute.created': {
+      const dispute = event.data.object as Stripe.Dispute
+      await handleDisputeCreated(supabase, dispute)
+      break
+    }
+    case 'charge.dispute.closed': {
+      const dispute = event.data.object as Stripe.Dispute
+      await handleDisputeClosed(supabase, dispute)
+      break
+    }
+    default:
+      console.log(`Unhandled event type: ${event.type}`)
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// DEAD-LETTER QUEUE
+// A failed event returns 500 so Stripe retries, but Stripe gives up after ~3 days.
+// Every failure is kept in stripe_webhook_failures (payload, last error, attempt count)
+// so an admin can replay it with stripe-webhook-replay; success marks it resolved.
+// ═══════════════════════════════════════════════════════════════════════
+async function recordFailedEvent(supabase: any, event: Stripe.Event, error: any, source: 'stripe' | 'replay') {
+  const { data: existing } = await supabase
+    .from('stripe_webhook_failures')
+    .select('attempt_count')
+    .eq('event_id', event.id)
+    .maybeSingle()
+
+  const { error: dlqError } = await supabase
+    .from('stripe_webhook_failures')
+    .upsert(
+      {
+        event_id: event.id,
+        event_type: event.type,
+        payload: event,
+        error_message: error?.message || String(error),
+        error_stack: error?.stack || null,
+        attempt_count: (existing?.attempt_count || 0) + 1,
+        last_attempt_source: source,
+        last_failed_at: new Date().toISOString(),
+        resolved_at: null,
+      },
+      { onConflict: 'event_id' }
+    )
+
+  if (dlqError) {
+    console.error(`Failed to record event ${event.id} in dead-letter queue:`, dlqError)
+  } else {
+    console.log(`Event ${event.id} recorded in dead-letter queue (attempt ${(existing?.attempt_count || 0) + 1})`)
+  }
+}
+
+async function resolveFailedEvent(supabase: any, eventId: string) {
+  const { error } = await supabase
+    .from('stripe_webhook_failures')
+    .update({ resolved_at: new Date().toISOString() })
+    .eq('event_id', eventId)
+    .is('resolved_at', null)
+
+  if (error) {
+    console.error(`Failed to resolve dead-letter entry for ${eventId}:`, error)
+  }
+}
+
+// Replays come from stripe-webhook-replay with the service role key instead of a Stripe signature
+function isInternalReplay(req: Request): boolean {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) return false
+
+  const token = authHeader.replace('Bearer ', '')
+  return token === supabaseServiceKey
+}
+
 serve(async (req) => {
   try {
-    // Verify Stripe webhook signature
+    // Verify Stripe webhook signature (or accept an internal replay)
     const signature = req.headers.get('stripe-signature')
-    if (!signature) {
+    const replay = !signature && isInternalReplay(req)
+    if (!signature && !replay) {
       return new Response('Missing signature', { status: 400 })
     }
 
     const body = await req.text()
     let event: Stripe.Event
 
-    try {
-      // Stripe SDK v17+ requires async verification in edge/Deno environments
-      event = await stripe.webhooks.constructEventAsync(
-        body,
-        signature,
-        webhookSecret,
-        undefined,  // tolerance (default 300s)
-        cryptoProvider
-      )
-    } catch (err) {
-      console.error('Webhook signature verification failed:', err.message)
-      return new Response(`Webhook Error: ${err.message}`, { status: 400 })
+    if (replay) {
+      // Body: { event } - the stored or re-fetched Stripe event
+      try {
+        event = JSON.parse(body).event
+      } catch {
+        return new Response('Invalid replay body', { status: 400 })
+      }
+      if (!event?.id || !event?.type) {
+        return new Response('Invalid replay body: event with id and type required', { status: 400 })
+      }
+      console.log(`Replay requested for event ${event.id}: ${event.type}`)
+    } else {
+      try {
+        // Stripe SDK v17+ requires async verification in edge/Deno environments
+        event = await stripe.webhooks.constructEventAsync(
+          body,
+          signature!,
+          webhookSecret,
+          undefined,  // tolerance (default 300s)
+          cryptoProvider
+        )
+      } catch (err) {
+        console.error('Webhook signature verification failed:', err.message)
+        return new Response(`Webhook Error: ${err.message}`, { status: 400 })
+      }
     }
 
     // Initialize Supabase client with service role
@@ -103,6 +246,7 @@ serve(async (req) => {
 
     if (eventExists === true) {
       console.log(`Duplicate event ${event.id}, skipping (already processed)`)
+      if (replay) await resolveFailedEvent(supabase, event.id)
       return new Response(JSON.stringify({ ok: true, duplicate: true }), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
@@ -111,36 +255,12 @@ serve(async (req) => {
 
     console.log(`Processing webhook event ${event.id}: ${event.type}`)
 
-    // Process event based on type
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session
-        await handleCheckoutCompleted(supabase, session, event.id, event.created)
-        break
-      }
-      case 'customer.subscription.created':
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription
-        await handleSubscriptionChange(supabase, subscription)
-        break
-      }
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription
-        await handleSubscriptionDeleted(supabase, subscription)
-        break
-      }
-      case 'invoice.payment_succeeded': {
-        const invoice = event.data.object as Stripe.Invoice
-        await handleInvoicePaymentSucceeded(supabase, invoice)
-        break
-      }
-      case 'invoice.payment_failed': {
-        const invoice = event.data.object as Stripe.Invoice
-        await handleInvoicePaymentFailed(supabase, invoice)
-        break
-      }
-      default:
-        console.log(`Unhandled event type: ${event.type}`)
+    // Process event; failures go to the dead-letter queue, then 500 so Stripe retries
+    try {
+      await processEvent(supabase, event)
+    } catch (handlerError) {
+      await recordFailedEvent(supabase, event, handlerError, replay ? 'replay' : 'stripe')
+      throw handlerError
     }
 
     // RECORD EVENT: Only after successful processing
@@ -161,6 +281,9 @@ serve(async (req) => {
       console.log(`Webhook event ${event.id} recorded after successful processing`)
     }
 
+    // Clear any dead-letter entry from earlier failed attempts
+    await resolveFailedEvent(supabase, event.id)
+
     return new Response(JSON.stringify({ ok: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -448,9 +571,110 @@ async function handleCheckoutCompleted(
   })
 }
 
+// ═══════════════════════════════════════════════════════════════════════
+// OUT-OF-ORDER PROTECTION
+// Stripe doesn't guarantee delivery order, so an older customer.subscription.updated can
+// arrive after a newer one. stripe_subscription_sync remembers, per subscription, the
+// created time of the newest event applied; older events are skipped. `created` has one-second
+// resolution, so a different event from the same second is 'tied': its payload may be older or
+// newer than the one applied, and callers re-fetch the subscription from Stripe instead.
+// ═══════════════════════════════════════════════════════════════════════
+async function subscriptionEventOrder(
+  supabase: any,
+  subscriptionId: string,
+  eventId: string,
+  eventCreatedAt: number  // Stripe timestamp (seconds since epoch)
+): Promise<'stale' | 'tied' | 'current'> {
+  const { data: sync, error } = await supabase
+    .from('stripe_subscription_sync')
+    .select('last_event_id, last_event_created_at')
+    .eq('subscription_id', subscriptionId)
+    .maybeSingle()
+
+  if (error) {
+    // Fail open like the idempotency check: better to apply than to drop an event
+    console.error(`Failed to read subscription sync state for ${subscriptionId}:`, error)
+    return 'current'
+  }
+
+  if (!sync) return 'current'
+
+  const lastAppliedAt = Date.parse(sync.last_event_created_at)
+  if (lastAppliedAt > eventCreatedAt * 1000) {
+    console.log(`Stale event for subscription ${subscriptionId}: created ${new Date(eventCreatedAt * 1000).toISOString()}, last applied ${sync.last_event_id} at ${sync.last_event_created_at}`)
+    return 'stale'
+  }
+  if (lastAppliedAt === eventCreatedAt * 1000 && sync.last_event_id !== eventId) {
+    console.log(`Event ${eventId} for subscription ${subscriptionId} has the same created time as applied event ${sync.last_event_id}`)
+    return 'tied'
+  }
+  return 'current'
+}
+
+// Advance the per-subscription marker (never moves backwards)
+async function recordSubscriptionEvent(
+  supabase: any,
+  subscriptionId: string,
+  eventId: string,
+  eventCreatedAt: number
+) {
+  const { data: sync } = await supabase
+    .from('stripe_subscription_sync')
+    .select('last_event_created_at')
+    .eq('subscription_id', subscriptionId)
+    .maybeSingle()
+
+  if (sync && Date.parse(sync.last_event_created_at) > eventCreatedAt * 1000) return
+
+  const { error } = await supabase
+    .from('stripe_subscription_sync')
+    .upsert(
+      {
+        subscription_id: subscriptionId,
+        last_event_id: eventId,
+        last_event_created_at: new Date(eventCreatedAt * 1000).toISOString(),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'subscription_id' }
+    )
+
+  if (error) {
+    // Non-blocking: the subscription state itself is already written
+    console.error(`Failed to record subscription sync state for ${subscriptionId}:`, error)
+  }
+}
+
+// update_subscription_status params derived from a subscription object
+// v4.0: trial and cancellation tracking fields (null values preserved by COALESCE in RPC)
+function subscriptionStatusParams(subscription: Stripe.Subscription) {
+  const trialEndAt = subscription.trial_end
+    ? new Date(subscription.trial_end * 1000).toISOString()
+    : null
+
+  const cancelAt = subscription.cancel_at
+    ? new Date(subscription.cancel_at * 1000).toISOString()
+    : null
+
+  return {
+    p_status: subscription.status,
+    p_subscription_id: subscription.id,
+    p_trial_end_at: trialEndAt,
+    p_cancel_at_period_end: subscription.cancel_at_period_end,
+    p_cancel_at: cancelAt,
+    p_billing_version: subscription.metadata?.billing_version || null,
+  }
+}
+
 // Handle subscription created/updated
 // v4.0: Extended to pass trial and cancellation tracking fields
-async function handleSubscriptionChange(supabase: any, subscription: Stripe.Subscription) {
+// v4.3: Skips events older than the last one applied to this subscription
+// v4.7: Same-second ties apply the subscription as re-fetched from Stripe
+async function handleSubscriptionChange(
+  supabase: any,
+  subscription: Stripe.Subscription,
+  eventId: string,
+  eventCreatedAt: number
+) {
   const stripeCustomerId = subscription.customer as string
 
   // Find user by stripe_customer_id
@@ -465,28 +689,24 @@ async function handleSubscriptionChange(supabase: any, subscription: Stripe.Subs
     return
   }
 
-  // === v4.0: Extract trial and cancellation data ===
-  const trialEndAt = subscription.trial_end
-    ? new Date(subscription.trial_end * 1000).toISOString()
-    : null
+  const eventOrder = await subscriptionEventOrder(supabase, subscription.id, eventId, eventCreatedAt)
+  if (eventOrder === 'stale') {
+    console.log(`Skipping stale event ${eventId} for subscription ${subscription.id} (status=${subscription.status})`)
+    return
+  }
 
-  const cancelAt = subscription.cancel_at
-    ? new Date(subscription.cancel_at * 1000).toISOString()
-    : null
+  // Same-second tie: the payload can't be ordered against the applied one, so apply Stripe's current state
+  if (eventOrder === 'tied') {
+    subscription = await stripe.subscriptions.retrieve(subscription.id)
+    console.log(`Re-fetched subscription ${subscription.id} to break tie: status=${subscription.status}`)
+  }
 
-  const billingVersion = subscription.metadata?.billing_version || null
+  const params = subscriptionStatusParams(subscription)
 
   // Use SECURITY DEFINER function to update subscription status (bypasses RLS)
-  // v4.0: Extended with trial and cancellation params
   const { error } = await supabase.rpc('update_subscription_status', {
     p_user_id: profile.user_id,
-    p_status: subscription.status,
-    p_subscription_id: subscription.id,
-    // v4.0 params (null values preserved by COALESCE in RPC)
-    p_trial_end_at: trialEndAt,
-    p_cancel_at_period_end: subscription.cancel_at_period_end,
-    p_cancel_at: cancelAt,
-    p_billing_version: billingVersion,
+    ...params,
   })
 
   if (error) {
@@ -494,12 +714,92 @@ async function handleSubscriptionChange(supabase: any, subscription: Stripe.Subs
     throw error
   }
 
-  console.log(`Subscription ${subscription.id} updated: status=${subscription.status}, trial_end=${trialEndAt || 'none'}, cancel_at_period_end=${subscription.cancel_at_period_end}`)
+  await recordSubscriptionEvent(supabase, subscription.id, eventId, eventCreatedAt)
+
+  // A subscription started any other way (e.g. Stripe dashboard) fulfils a queued first-pickup start
+  const { error: requestError } = await supabase
+    .from('subscription_start_requests')
+    .update({ status: 'fulfilled', subscription_id: subscription.id, decided_at: new Date().toISOString() })
+    .eq('user_id', profile.user_id)
+    .eq('status', 'pending')
+
+  if (requestError) {
+    console.error(`Failed to close subscription start request: ${requestError.message}`)
+  }
+
+  console.log(`Subscription ${subscription.id} updated: status=${subscription.status}, trial_end=${params.p_trial_end_at || 'none'}, cancel_at_period_end=${subscription.cancel_at_period_end}`)
+}
+
+// Handle customer.subscription.trial_will_end (sent ~3 days before the trial converts)
+// Records trial_ending_reminder_at and sends the trial_ending email unless the customer already canceled
+async function handleTrialWillEnd(supabase: any, subscription: Stripe.Subscription) {
+  const stripeCustomerId = subscription.customer as string
+
+  const { data: profile } = await supabase
+    .from('customer_profile')
+    .select('user_id, email, first_name, trial_end_at, trial_ending_reminder_at')
+    .eq('stripe_customer_id', stripeCustomerId)
+    .single()
+
+  if (!profile) {
+    console.error(`No profile found for Stripe customer ${stripeCustomerId}`)
+    return
+  }
+
+  // customer_profile.trial_end_at is kept current by handleSubscriptionChange; fall back to the event
+  const trialEndAt = profile.trial_end_at || (subscription.trial_end
+    ? new Date(subscription.trial_end * 1000).toISOString()
+    : null)
+
+  if (!trialEndAt) {
+    console.error(`Subscription ${subscription.id} has no trial end, skipping trial_ending email`)
+    return
+  }
+
+  // Already reminded for this trial: a reminder within a week of this trial end counts
+  const reminderWindowStart = Date.parse(trialEndAt) - 7 * 24 * 60 * 60 * 1000
+  if (profile.trial_ending_reminder_at && Date.parse(profile.trial_ending_reminder_at) >= reminderWindowStart) {
+    console.log(`Trial ending reminder already sent for user ${profile.user_id} at ${profile.trial_ending_reminder_at}`)
+    return
+  }
+
+  // Customers who canceled during the trial won't be charged; no heads-up needed
+  if (subscription.cancel_at_period_end || subscription.status !== 'trialing') {
+    console.log(`Subscription ${subscription.id} won't convert (status=${subscription.status}, cancel_at_period_end=${subscription.cancel_at_period_end}), skipping trial_ending email`)
+    return
+  }
+
+  const { error } = await supabase
+    .from('customer_profile')
+    .update({ trial_ending_reminder_at: new Date().toISOString() })
+    .eq('user_id', profile.user_id)
+
+  if (error) {
+    console.error(`Failed to record trial ending reminder: ${error.message}`)
+    throw error
+  }
+
+  console.log(`Trial ending for user ${profile.user_id}: subscription ${subscription.id}, trial_end=${trialEndAt}`)
+
+  // Send trial ending email (non-blocking)
+  if (profile.email) {
+    sendTransactionalEmail('trial_ending', profile.email, {
+      firstName: profile.first_name || undefined,
+      trialEndDate: trialEndAt,
+      billingPortalUrl: BILLING_PORTAL_URL,
+    })
+  }
 }
 
 // Handle subscription deleted
 // v4.0: Clears trial_end_at and cancel_at since subscription is now fully canceled
-async function handleSubscriptionDeleted(supabase: any, subscription: Stripe.Subscription) {
+// v4.3: Records the deletion so late-arriving updates can't resurrect the subscription
+async function handleSubscriptionDeleted(
+  supabase: any,
+  subscription: Stripe.Subscription,
+  eventId: string,
+  eventCreatedAt: number
+) {
   const stripeCustomerId = subscription.customer as string
 
   const { data: profile } = await supabase
@@ -513,6 +813,12 @@ async function handleSubscriptionDeleted(supabase: any, subscription: Stripe.Sub
     return
   }
 
+  // A tie is applied: deletion is final, whatever the other same-second event said
+  if (await subscriptionEventOrder(supabase, subscription.id, eventId, eventCreatedAt) === 'stale') {
+    console.log(`Skipping stale event ${eventId} for subscription ${subscription.id} (deleted)`)
+    return
+  }
+
   // Use SECURITY DEFINER function to update subscription status (bypasses RLS)
   // v4.0: Clear trial and cancellation columns since subscription is now deleted
   // Note: The RPC uses COALESCE, so we need to handle clearing via direct update for nulls
@@ -528,16 +834,33 @@ async function handleSubscriptionDeleted(supabase: any, subscription: Stripe.Sub
     throw error
   }
 
+  await recordSubscriptionEvent(supabase, subscription.id, eventId, eventCreatedAt)
+
   console.log(`Subscription ${subscription.id} canceled for user ${profile.user_id}`)
 }
 
+// Current state of an invoice's subscription, fetched from Stripe (null for one-off invoices)
+// Invoice events don't carry subscription status, and the invoice may be older than the
+// latest subscription change, so the live object is the source of truth
+async function fetchInvoiceSubscription(invoice: Stripe.Invoice): Promise<Stripe.Subscription | null> {
+  if (!invoice.subscription) return null
+  if (typeof invoice.subscription !== 'string') return invoice.subscription
+  return await stripe.subscriptions.retrieve(invoice.subscription)
+}
+
 // Handle invoice payment succeeded
-async function handleInvoicePaymentSucceeded(supabase: any, invoice: Stripe.Invoice) {
+// v4.3: Status comes from the subscription (a $0 trial invoice stays 'trialing')
+async function handleInvoicePaymentSucceeded(
+  supabase: any,
+  invoice: Stripe.Invoice,
+  eventId: string,
+  eventCreatedAt: number
+) {
   const stripeCustomerId = invoice.customer as string
 
   const { data: profile } = await supabase
     .from('customer_profile')
-    .select('user_id')
+    .select('user_id, subscription_status')
     .eq('stripe_customer_id', stripeCustomerId)
     .single()
 
@@ -546,11 +869,14 @@ async function handleInvoicePaymentSucceeded(supabase: any, invoice: Stripe.Invo
     return
   }
 
+  const subscription = await fetchInvoiceSubscription(invoice)
+
   // Use SECURITY DEFINER function to update subscription status (bypasses RLS)
+  // One-off invoices (no subscription) only record the payment
   const { error } = await supabase.rpc('update_subscription_status', {
     p_user_id: profile.user_id,
-    p_status: 'active',
-    p_last_payment_at: new Date().toISOString(),
+    ...(subscription ? subscriptionStatusParams(subscription) : { p_status: profile.subscription_status }),
+    p_last_payment_at: new Date(eventCreatedAt * 1000).toISOString(),
   })
 
   if (error) {
@@ -558,16 +884,26 @@ async function handleInvoicePaymentSucceeded(supabase: any, invoice: Stripe.Invo
     throw error
   }
 
-  console.log(`Invoice ${invoice.id} payment succeeded for user ${profile.user_id}`)
+  if (subscription) {
+    await recordSubscriptionEvent(supabase, subscription.id, eventId, eventCreatedAt)
+  }
+
+  console.log(`Invoice ${invoice.id} payment succeeded for user ${profile.user_id} (status=${subscription?.status || profile.subscription_status})`)
 }
 
 // Handle invoice payment failed
-async function handleInvoicePaymentFailed(supabase: any, invoice: Stripe.Invoice) {
+// v4.3: Status comes from the subscription (Stripe decides past_due/unpaid per its retry settings)
+async function handleInvoicePaymentFailed(
+  supabase: any,
+  invoice: Stripe.Invoice,
+  eventId: string,
+  eventCreatedAt: number
+) {
   const stripeCustomerId = invoice.customer as string
 
   const { data: profile } = await supabase
     .from('customer_profile')
-    .select('user_id, email, first_name')
+    .select('user_id, email, first_name, subscription_status')
     .eq('stripe_customer_id', stripeCustomerId)
     .single()
 
@@ -576,11 +912,13 @@ async function handleInvoicePaymentFailed(supabase: any, invoice: Stripe.Invoice
     return
   }
 
+  const subscription = await fetchInvoiceSubscription(invoice)
+
   // Use SECURITY DEFINER function to update subscription status (bypasses RLS)
   const { error } = await supabase.rpc('update_subscription_status', {
     p_user_id: profile.user_id,
-    p_status: 'past_due',
-    p_last_payment_failed_at: new Date().toISOString(),
+    ...(subscription ? subscriptionStatusParams(subscription) : { p_status: profile.subscription_status }),
+    p_last_payment_failed_at: new Date(eventCreatedAt * 1000).toISOString(),
   })
 
   if (error) {
@@ -588,7 +926,11 @@ async function handleInvoicePaymentFailed(supabase: any, invoice: Stripe.Invoice
     throw error
   }
 
-  console.log(`Invoice ${invoice.id} payment failed for user ${profile.user_id}`)
+  if (subscription) {
+    await recordSubscriptionEvent(supabase, subscription.id, eventId, eventCreatedAt)
+  }
+
+  console.log(`Invoice ${invoice.id} payment failed for user ${profile.user_id} (status=${subscription?.status || profile.subscription_status})`)
 
   // Send payment failed email (non-blocking)
   if (profile.email) {
@@ -597,3 +939,153 @@ async function handleInvoicePaymentFailed(supabase: any, invoice: Stripe.Invoice
     })
   }
 }
+
+// Find the profile for a charge: by Stripe customer, else by billing email ($0-customer checkouts)
+async function findProfileForCharge(supabase: any, charge: Stripe.Charge, columns: string) {
+  const stripeCustomerId = charge.customer as string | null
+  if (stripeCustomerId) {
+    const { data: profile } = await supabase
+      .from('customer_profile')
+      .select(columns)
+      .eq('stripe_customer_id', stripeCustomerId)
+      .maybeSingle()
+    if (profile) return profile
+  }
+
+  const email = charge.billing_details?.email || charge.receipt_email
+  if (!email) return null
+
+  const { data: profile } = await supabase
+    .from('customer_profile')
+    .select(columns)
+    .ilike('email', email.toLowerCase().trim())
+    .maybeSingle()
+  return profile
+}
+
+// Handle charge.refunded
+// Adds the newly refunded amount to refunded_amount (dollars) and clears needs_manual_refund
+// once the charge is fully refunded (out-of-service-area setup fees are refunded by hand in Stripe)
+// amount_refunded is cumulative per charge; record_charge_refund diffs it against the total already
+// recorded for the charge (stripe_charge_refunds), so redelivered or out-of-order events add nothing
+async function handleChargeRefunded(supabase: any, charge: Stripe.Charge) {
+  const profile = await findProfileForCharge(supabase, charge, 'user_id, needs_manual_refund')
+
+  if (!profile) {
+    console.error(`No profile found for refunded charge ${charge.id} (customer ${charge.customer || 'none'})`)
+    return
+  }
+
+  const { data: newlyRefundedCents, error } = await supabase.rpc('record_charge_refund', {
+    p_charge_id: charge.id,
+    p_user_id: profile.user_id,
+    p_amount_refunded_cents: charge.amount_refunded,
+    p_fully_refunded: charge.refunded,
+  })
+
+  if (error) {
+    console.error(`Failed to record refund: ${error.message}`)
+    throw error
+  }
+
+  console.log(`Charge ${charge.id} refunded $${(newlyRefundedCents || 0) / 100} more (total $${charge.amount_refunded / 100}, fully refunded: ${charge.refunded}) for user ${profile.user_id}${charge.refunded && profile.needs_manual_refund ? ' - cleared needs_manual_refund' : ''}`)
+}
+
+// Dispute statuses after charge.dispute.closed
+const CLOSED_DISPUTE_STATUSES = ['won', 'lost', 'warning_closed']
+
+// Handle charge.dispute.created
+// Puts the account on hold: dispute_open blocks new bookings (update-booking-items, confirm-booking)
+// Each dispute is tracked in stripe_disputes; the hold stays while any of them is open
+async function handleDisputeCreated(supabase: any, dispute: Stripe.Dispute) {
+  const charge = typeof dispute.charge === 'string'
+    ? await stripe.charges.retrieve(dispute.charge)
+    : dispute.charge
+  const profile = await findProfileForCharge(supabase, charge, 'user_id')
+
+  if (!profile) {
+    console.error(`No profile found for disputed charge ${charge.id} (dispute ${dispute.id})`)
+    return
+  }
+
+  // ignoreDuplicates: a late or redelivered .created must not reopen a dispute already closed
+  const { error } = await supabase
+    .from('stripe_disputes')
+    .upsert({
+      dispute_id: dispute.id,
+      user_id: profile.user_id,
+      charge_id: charge.id,
+      amount_cents: dispute.amount,
+      reason: dispute.reason,
+      status: dispute.status,
+      opened_at: new Date(dispute.created * 1000).toISOString(),
+      closed_at: CLOSED_DISPUTE_STATUSES.includes(dispute.status) ? new Date().toISOString() : null,
+    }, { onConflict: 'dispute_id', ignoreDuplicates: true })
+
+  if (error) {
+    console.error(`Failed to record dispute: ${error.message}`)
+    throw error
+  }
+
+  const onHold = await syncDisputeHold(supabase, profile.user_id)
+  console.log(`Dispute ${dispute.id} opened on charge ${charge.id} ($${dispute.amount / 100}, reason: ${dispute.reason}) - user ${profile.user_id} ${onHold ? 'on hold' : 'not on hold (dispute already closed)'}`)
+}
+
+// Handle charge.dispute.closed (won, lost or warning_closed)
+// Closes this dispute; the hold is lifted only when no other dispute is still open
+async function handleDisputeClosed(supabase: any, dispute: Stripe.Dispute) {
+  const { data: existing } = await supabase
+    .from('stripe_disputes')
+    .select('user_id')
+    .eq('dispute_id', dispute.id)
+    .maybeSingle()
+
+  let userId: string | null = existing?.user_id || null
+  let chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id
+  if (!userId) {
+    // .created never processed (or arrives later): find the customer from the charge
+    const charge = typeof dispute.charge === 'string'
+      ? await stripe.charges.retrieve(dispute.charge)
+      : dispute.charge
+    chargeId = charge.id
+    const profile = await findProfileForCharge(supabase, charge, 'user_id')
+    userId = profile?.user_id || null
+  }
+
+  if (!userId) {
+    console.log(`No profile found for dispute ${dispute.id}, nothing to clear`)
+    return
+  }
+
+  const { error } = await supabase
+    .from('stripe_disputes')
+    .upsert({
+      dispute_id: dispute.id,
+      user_id: userId,
+      charge_id: chargeId,
+      amount_cents: dispute.amount,
+      reason: dispute.reason,
+      status: dispute.status,
+      opened_at: new Date(dispute.created * 1000).toISOString(),
+      closed_at: new Date().toISOString(),
+    }, { onConflict: 'dispute_id' })
+
+  if (error) {
+    console.error(`Failed to close dispute: ${error.message}`)
+    throw error
+  }
+
+  const onHold = await syncDisputeHold(supabase, userId)
+  console.log(`Dispute ${dispute.id} closed (${dispute.status}) - ${onHold ? 'user still on hold (other disputes open)' : 'hold lifted'} for user ${userId}`)
+}
+
+// Recompute customer_profile.dispute_* from stripe_disputes in one statement; returns dispute_open
+async function syncDisputeHold(supabase: any, userId: string): Promise<boolean> {
+  const { data: onHold, error } = await supabase.rpc('sync_dispute_hold', { p_user_id: userId })
+
+  if (error) {
+    console.error(`Failed to update dispute hold: ${error.message}`)
+    throw error
+  }
+  return onHold === true
+}
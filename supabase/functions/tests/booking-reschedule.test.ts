@@ -0,0 +1,196 @@
+// Storage Valet — booking-reschedule tests (local Calendly stand-in, fake Supabase client)
+// Run: deno test supabase/functions/tests/
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import {
+  CalendlyClient,
+  createCalendlyClient,
+  createLocalCalendlyClient,
+} from '../_shared/calendly.ts'
+import { moveBooking, ReschedulableBooking } from '../booking-reschedule/reschedule.ts'
+
+const RESCHEDULABLE = ['pending_items', 'pending_confirmation']
+const OLD_EVENT_URI = 'https://api.calendly.com/scheduled_events/OLD'
+
+const booking: ReschedulableBooking = {
+  id: '7a1c2d3e-0000-4000-8000-000000000001',
+  user_id: '7a1c2d3e-0000-4000-8000-0000000000aa',
+  scheduled_start: '2030-01-07T14:00:00.000Z',
+  scheduled_end: '2030-01-07T16:00:00.000Z',
+  calendly_event_uri: OLD_EVENT_URI,
+  calendly_payload: {
+    email: 'customer@example.com',
+    name: 'Test Customer',
+    timezone: 'America/New_York',
+    scheduled_event: { uri: OLD_EVENT_URI, event_type: 'https://api.calendly.com/event_types/PICKUP' },
+  },
+}
+
+const newStart = new Date('2030-01-09T14:00:00.000Z')
+const newEnd = new Date('2030-01-09T16:00:00.000Z')
+
+// Local stand-in with a record of what it was asked to do
+function recordingCalendly() {
+  const local = createLocalCalendlyClient()
+  const scheduled: string[] = []
+  const canceled: string[] = []
+  const client: CalendlyClient = {
+    async scheduleEvent(params) {
+      const uri = await local.scheduleEvent(params)
+      scheduled.push(uri)
+      return uri
+    },
+    async cancelEvent(eventUri, reason) {
+      await local.cancelEvent(eventUri, reason)
+      canceled.push(eventUri)
+    },
+  }
+  return { client, scheduled, canceled }
+}
+
+// Just enough of the supabase-js query builder for moveBooking
+// The first actions update resolves to movedRow (null = status changed concurrently)
+function fakeSupabase(movedRow: Record<string, unknown> | null) {
+  const updates: Array<{ values: Record<string, unknown>; filters: unknown[][] }> = []
+  const events: Array<Record<string, any>> = []
+
+  const client = {
+    from(_table: string) {
+      const call = { values: {} as Record<string, unknown>, filters: [] as unknown[][] }
+      const result = () => ({ data: updates.length === 1 ? movedRow : null, error: null })
+      const builder: any = {
+        update(values: Record<string, unknown>) {
+          call.values = values
+          updates.push(call)
+          return builder
+        },
+        eq(column: string, value: unknown) {
+          call.filters.push(['eq', column, value])
+          return builder
+        },
+        in(column: string, values: unknown[]) {
+          call.filters.push(['in', column, values])
+          return builder
+        },
+        select() {
+          return builder
+        },
+        maybeSingle() {
+          return Promise.resolve(result())
+        },
+        then(resolve: (value: unknown) => unknown) {
+          return Promise.resolve({ data: null, error: null }).then(resolve)
+        },
+      }
+      return builder
+    },
+    rpc(_name: string, params: Record<string, any>) {
+      events.push(params)
+      return Promise.resolve({ data: null, error: null })
+    },
+  }
+
+  return { client, updates, events }
+}
+
+Deno.test('moves the booking to a new Calendly event and cancels the old one', async () => {
+  const calendly = recordingCalendly()
+  const supabase = fakeSupabase({
+    id: booking.id,
+    status: 'pending_items',
+    scheduled_start: newStart.toISOString(),
+    scheduled_end: newEnd.toISOString(),
+  })
+
+  const result = await moveBooking(supabase.client, calendly.client, {
+    booking,
+    newStart,
+    newEnd,
+    reschedulableStates: RESCHEDULABLE,
+  })
+
+  assert(result.ok)
+  assertEquals(calendly.scheduled.length, 1)
+  const newEventUri = calendly.scheduled[0]
+
+  // The action stays linked to Calendly: the new event URI replaces the old one
+  assertEquals(supabase.updates.length, 1)
+  assertEquals(supabase.updates[0].values.calendly_event_uri, newEventUri)
+  assertEquals(supabase.updates[0].values.scheduled_start, newStart.toISOString())
+  assertEquals(result.calendlyEventUri, newEventUri)
+
+  assertEquals(calendly.canceled, [OLD_EVENT_URI])
+  assert(result.calendlyCanceled)
+
+  assertEquals(supabase.events.length, 1)
+  assertEquals(supabase.events[0].p_event_type, 'portal_booking_rescheduled')
+  assertEquals(supabase.events[0].p_metadata.previous_event_uri, OLD_EVENT_URI)
+  assertEquals(supabase.events[0].p_metadata.event_uri, newEventUri)
+})
+
+Deno.test('fails closed without a Calendly client', async () => {
+  const supabase = fakeSupabase(null)
+
+  const result = await moveBooking(supabase.client, null, {
+    booking,
+    newStart,
+    newEnd,
+    reschedulableStates: RESCHEDULABLE,
+  })
+
+  assert(!result.ok)
+  assertEquals(result.status, 503)
+  assertEquals(supabase.updates.length, 0)
+  assertEquals(supabase.events.length, 0)
+})
+
+Deno.test('cancels the new Calendly event when the booking changed concurrently', async () => {
+  const calendly = recordingCalendly()
+  const supabase = fakeSupabase(null)
+
+  const result = await moveBooking(supabase.client, calendly.client, {
+    booking,
+    newStart,
+    newEnd,
+    reschedulableStates: RESCHEDULABLE,
+  })
+
+  assert(!result.ok)
+  assertEquals(result.status, 409)
+  const newEventUri = calendly.scheduled[0]
+
+  // Link restored (only if calendly-webhook already attached the new event), then the new event released
+  assertEquals(supabase.updates.length, 2)
+  assertEquals(supabase.updates[1].values.calendly_event_uri, OLD_EVENT_URI)
+  assertEquals(supabase.updates[1].filters, [['eq', 'id', booking.id], ['eq', 'calendly_event_uri', newEventUri]])
+  assertEquals(calendly.canceled, [newEventUri])
+  assertEquals(supabase.events.length, 0)
+})
+
+Deno.test('bookings without a Calendly event move without a Calendly client', async () => {
+  const supabase = fakeSupabase({
+    id: booking.id,
+    status: 'pending_confirmation',
+    scheduled_start: newStart.toISOString(),
+    scheduled_end: newEnd.toISOString(),
+  })
+
+  const result = await moveBooking(supabase.client, null, {
+    booking: { ...booking, calendly_event_uri: null, calendly_payload: null },
+    newStart,
+    newEnd,
+    reschedulableStates: RESCHEDULABLE,
+  })
+
+  assert(result.ok)
+  assertEquals(result.calendlyEventUri, null)
+  assertEquals(supabase.updates[0].values.calendly_event_uri, null)
+})
+
+Deno.test('createCalendlyClient uses the stand-in only when explicitly enabled', () => {
+  const env = (vars: Record<string, string>) => ({ get: (key: string) => vars[key] })
+
+  assertEquals(createCalendlyClient(env({})), null)
+  assert(createCalendlyClient(env({ CALENDLY_CLIENT: 'local' })) !== null)
+  assert(createCalendlyClient(env({ CALENDLY_API_TOKEN: 'token' })) !== null)
+})
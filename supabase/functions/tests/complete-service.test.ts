@@ -0,0 +1,105 @@
+// Storage Valet — complete-service follow-up tests (fake Supabase client)
+// Run: deno test supabase/functions/tests/
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { CompletedVisit, followUpCompletion } from '../complete-service/completion.ts'
+
+const ACTION_ID = '7a1c2d3e-0000-4000-8000-000000000101'
+const USER_ID = '7a1c2d3e-0000-4000-8000-0000000001aa'
+const STAFF_ID = '7a1c2d3e-0000-4000-8000-0000000001ff'
+
+const firstPickup: CompletedVisit = {
+  actionId: ACTION_ID,
+  userId: USER_ID,
+  completedBy: STAFF_ID,
+  customer: {
+    email: 'customer@example.com',
+    first_name: 'Test',
+    setup_fee_paid: true,
+    subscription_id: null,
+    billing_version: null,
+    stripe_customer_id: 'cus_test',
+  },
+  pickupItemsUpdated: 2,
+  deliveryItemsUpdated: 0,
+  missingPickupIds: ['item-missing'],
+  missingDeliveryIds: [],
+  declaredValueMissing: 150,
+  completionMetadata: { service_type: 'pickup', items_updated: 2 },
+}
+
+// rpc resolves like supabase-js: a thenable builder (no .catch), errors in the result
+function fakeSupabase(rpcError: { message: string } | null = null) {
+  const events: Array<Record<string, any>> = []
+  const client = {
+    rpc(_name: string, params: Record<string, any>) {
+      events.push(params)
+      return {
+        then(resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) {
+          return Promise.resolve({ data: null, error: rpcError }).then(resolve, reject)
+        },
+      }
+    },
+  }
+  return { client, events }
+}
+
+function recordingDeps() {
+  const emails: Array<{ type: string; to: string; itemCount?: number }> = []
+  const starts: Array<Record<string, unknown>> = []
+  const deps = {
+    sendEmail(type: 'pickup_complete' | 'delivery_complete', to: string, data: { itemCount?: number }) {
+      emails.push({ type, to, itemCount: data.itemCount })
+      return Promise.resolve()
+    },
+    startSubscription(params: Record<string, unknown>) {
+      starts.push(params)
+      return Promise.resolve('started' as const)
+    },
+  }
+  return { deps, emails, starts }
+}
+
+Deno.test('logs events, emails the customer and starts the subscription after a first pickup', async () => {
+  const supabase = fakeSupabase()
+  const { deps, emails, starts } = recordingDeps()
+
+  const result = await followUpCompletion(supabase.client, deps, firstPickup)
+
+  assertEquals(result, 'started')
+  assertEquals(supabase.events.map(event => event.p_event_type), ['service_completed', 'items_missing'])
+  assertEquals(supabase.events[1].p_metadata.pickup_item_ids, ['item-missing'])
+  assertEquals(emails, [{ type: 'pickup_complete', to: 'customer@example.com', itemCount: 2 }])
+  assertEquals(starts, [{ userId: USER_ID, actionId: ACTION_ID, stripeCustomerId: 'cus_test', startedBy: STAFF_ID }])
+})
+
+Deno.test('event logging failures do not stop emails or the subscription start', async () => {
+  const supabase = fakeSupabase({ message: 'log_booking_event failed' })
+  const { deps, emails, starts } = recordingDeps()
+
+  const result = await followUpCompletion(supabase.client, deps, firstPickup)
+
+  assertEquals(result, 'started')
+  assertEquals(supabase.events.length, 2)
+  assertEquals(emails.length, 1)
+  assertEquals(starts.length, 1)
+})
+
+Deno.test('no subscription start for subscribed customers or visits without picked-up items', async () => {
+  const { deps, starts } = recordingDeps()
+
+  const subscribed = await followUpCompletion(fakeSupabase().client, deps, {
+    ...firstPickup,
+    customer: { ...firstPickup.customer!, subscription_id: 'sub_existing' },
+  })
+  const deliveryOnly = await followUpCompletion(fakeSupabase().client, deps, {
+    ...firstPickup,
+    pickupItemsUpdated: 0,
+    deliveryItemsUpdated: 3,
+    missingPickupIds: [],
+  })
+
+  assertEquals(subscribed, null)
+  assertEquals(deliveryOnly, null)
+  assertEquals(starts.length, 0)
+})
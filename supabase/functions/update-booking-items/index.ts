@@ -1,4 +1,6 @@
 // Storage Valet — Update Booking Items Edge Function
+// v1.3 • Accounts with an open Stripe dispute can't select items (bookings on hold)
+// v1.2 • Reject selections that exceed the slot's item capacity (slot_capacity.max_items)
 // v1.1 • Fixed: Proper JWT verification via auth.getUser() (was using insecure atob decode)
 // v1.0 • Item selection for schedule-first booking flow
 //
@@ -9,12 +11,15 @@
 // Logic:
 // - Verifies JWT via Supabase Auth (Pattern A: anon-key for auth, service role for DB)
 // - Verifies action ownership
+// - Rejects accounts on hold (open payment dispute)
 // - Fetches items and partitions by status (home vs stored)
+// - Rejects selections that would push the slot past its item capacity
 // - Updates pickup_item_ids and delivery_item_ids arrays
 // - Transitions status: pending_items → pending_confirmation
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getSlotCapacity, getSlotUsage, type SlotCapacity, type SlotUsage } from '../_shared/slotCapacity.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
@@ -22,12 +27,13 @@ const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
 // Status transition validation
 const VALID_TRANSITIONS: Record<string, string[]> = {
-  'pending_items': ['pending_confirmation', 'canceled'],
-  'pending_confirmation': ['confirmed', 'canceled'],
-  'confirmed': ['in_progress', 'canceled'],
-  'in_progress': ['completed', 'canceled'],
+  'pending_items': ['pending_confirmation', 'canceled', 'no_show'],
+  'pending_confirmation': ['confirmed', 'canceled', 'no_show'],
+  'confirmed': ['in_progress', 'canceled', 'no_show'],
+  'in_progress': ['completed', 'canceled', 'no_show'],
   'completed': [],  // Terminal state
-  'canceled': []    // Terminal state
+  'canceled': [],   // Terminal state
+  'no_show': []     // Terminal state
 }
 
 function isValidTransition(from: string, to: string): boolean {
@@ -112,7 +118,7 @@ serve(async (req) => {
     // Fetch action and verify ownership (include existing item arrays for edit mode)
     const { data: action, error: actionError } = await supabase
       .from('actions')
-      .select('id, user_id, status, pickup_item_ids, delivery_item_ids')
+      .select('id, user_id, status, scheduled_start, scheduled_end, pickup_item_ids, delivery_item_ids')
       .eq('id', action_id)
       .single()
 
@@ -142,6 +148,24 @@ serve(async (req) => {
       )
     }
 
+    // Accounts with an open payment dispute can't book until it's resolved (set by stripe-webhook)
+    const { data: customerProfile } = await supabase
+      .from('customer_profile')
+      .select('dispute_open')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (customerProfile?.dispute_open) {
+      console.log(`Rejecting item selection for user ${userId}: open payment dispute`)
+      return new Response(
+        JSON.stringify({
+          error: 'Account on hold',
+          reason: 'There is an open payment dispute on your account. Please contact support to continue booking.'
+        }),
+        { status: 403, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } }
+      )
+    }
+
     // Fetch selected items.
     // IMPORTANT: this uses the service-role client, so RLS is NOT applied.
     // We must explicitly scope by user_id to prevent cross-tenant manipulation.
@@ -152,6 +176,7 @@ serve(async (req) => {
       .select('id, status, user_id')
       .in('id', uniqueSelectedIds)
       .eq('user_id', userId)
+      .is('archived_at', null)  // Archived items can't be booked
 
     if (itemsError) {
       console.error('Failed to fetch items:', itemsError)
@@ -162,14 +187,19 @@ serve(async (req) => {
     }
 
     if (!itemsError && (!items || items.length !== uniqueSelectedIds.length)) {
-      console.error('Forbidden: one or more items do not belong to user')
+      const foundIds = new Set((items || []).map((item: any) => item.id))
+      const rejectedIds = uniqueSelectedIds.filter(id => !foundIds.has(id))
+      console.error('Forbidden: one or more items do not belong to user or are archived:', rejectedIds)
       return new Response(
-        JSON.stringify({ error: 'Forbidden: One or more items do not belong to user' }),
+        JSON.stringify({
+          error: 'Forbidden: One or more items do not belong to user or are archived',
+          item_ids: rejectedIds
+        }),
         { status: 403, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } }
       )
     }
 
-    // At this point, all items are verified to belong to the authenticated user.
+    // At this point, all items are verified to belong to the authenticated user and not be archived.
 
     // ═══════════════════════════════════════════════════════════════════════
     // PARTITION ITEMS: home → pickup, stored → delivery
@@ -200,6 +230,40 @@ serve(async (req) => {
       // Other statuses are ignored
     }
 
+    // ═══════════════════════════════════════════════════════════════════════
+    // SLOT ITEM CAPACITY: this selection + other bookings in the window must fit
+    // ═══════════════════════════════════════════════════════════════════════
+    if (action.scheduled_start && action.scheduled_end) {
+      const slotStart = new Date(action.scheduled_start)
+      const slotEnd = new Date(action.scheduled_end)
+      let capacity: SlotCapacity
+      let usage: SlotUsage
+      try {
+        capacity = await getSlotCapacity(supabase, slotStart)
+        usage = await getSlotUsage(supabase, slotStart, slotEnd, action_id)
+      } catch (capacityError) {
+        console.error('Failed to check slot capacity:', capacityError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to check slot capacity' }),
+          { status: 500, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } }
+        )
+      }
+
+      const selectedCount = pickupItemIds.length + deliveryItemIds.length
+      if (capacity.maxItems !== null && usage.items + selectedCount > capacity.maxItems) {
+        const available = Math.max(capacity.maxItems - usage.items, 0)
+        console.log(`Slot item capacity exceeded: ${usage.items} booked + ${selectedCount} selected > ${capacity.maxItems} (rule ${capacity.ruleId})`)
+        return new Response(
+          JSON.stringify({
+            error: 'Slot item capacity exceeded',
+            reason: `This time window can take ${available} more item${available === 1 ? '' : 's'}; you selected ${selectedCount}. Remove some items or reschedule.`,
+            max_items_available: available
+          }),
+          { status: 409, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } }
+        )
+      }
+    }
+
     // Determine new status - stay in pending_confirmation if already there
     const newStatus = action.status === 'pending_confirmation' ? 'pending_confirmation' : 'pending_confirmation'
 
@@ -0,0 +1,20 @@
+-- Storage Valet - Migration 0014
+-- Exchange bookings (pickup + delivery in one visit), derived by calendly-webhook v2.3
+-- and processed by complete-service as both a pickup and a delivery
+
+-- actions.service_type is an enum on older databases and text on newer ones;
+-- only the enum needs the new value
+DO $$
+DECLARE
+  service_type_udt text;
+BEGIN
+  SELECT c.udt_name INTO service_type_udt
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+  AND c.table_name = 'actions'
+  AND c.column_name = 'service_type';
+
+  IF EXISTS (SELECT FROM pg_type WHERE typname = service_type_udt AND typtype = 'e') THEN
+    EXECUTE format('ALTER TYPE %I ADD VALUE IF NOT EXISTS %L', service_type_udt, 'exchange');
+  END IF;
+END $$;
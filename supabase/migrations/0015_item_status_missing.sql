@@ -0,0 +1,20 @@
+-- Storage Valet - Migration 0015
+-- Items reported 'missing' at completion (complete-service v2.11) keep a status of their own
+-- instead of being put back to home/stored
+
+-- items.status is an enum on older databases and text on newer ones;
+-- only the enum needs the new value
+DO $$
+DECLARE
+  item_status_udt text;
+BEGIN
+  SELECT c.udt_name INTO item_status_udt
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+  AND c.table_name = 'items'
+  AND c.column_name = 'status';
+
+  IF EXISTS (SELECT FROM pg_type WHERE typname = item_status_udt AND typtype = 'e') THEN
+    EXECUTE format('ALTER TYPE %I ADD VALUE IF NOT EXISTS %L', item_status_udt, 'missing');
+  END IF;
+END $$;
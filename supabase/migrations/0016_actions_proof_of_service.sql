@@ -0,0 +1,8 @@
+-- Storage Valet - Migration 0016
+-- Proof of service captured by complete-service v2.7 and shown by booking-get
+-- Paths are object keys in Supabase Storage
+
+ALTER TABLE public.actions
+  ADD COLUMN IF NOT EXISTS proof_photo_paths text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS signature_path text,
+  ADD COLUMN IF NOT EXISTS driver_notes text;
@@ -0,0 +1,28 @@
+-- Storage Valet - Migration 0017
+-- No-shows (calendly-webhook v2.4+, mark-no-show): terminal action status, per-customer count,
+-- and a marker for no-shows undone by Calendly (invitee_no_show.deleted)
+
+ALTER TYPE action_status ADD VALUE IF NOT EXISTS 'no_show';
+
+ALTER TABLE public.customer_profile
+  ADD COLUMN IF NOT EXISTS no_show_count integer NOT NULL DEFAULT 0;
+
+-- Set when invitee_no_show.deleted undoes the count; cleared if the no-show is marked again
+ALTER TABLE public.actions
+  ADD COLUMN IF NOT EXISTS no_show_cleared_at timestamptz;
+
+-- Atomic increment/decrement (never below 0); returns the new count, NULL if no profile
+CREATE OR REPLACE FUNCTION public.adjust_no_show_count(p_user_id uuid, p_delta integer)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.customer_profile
+  SET no_show_count = GREATEST(0, no_show_count + p_delta)
+  WHERE user_id = p_user_id
+  RETURNING no_show_count;
+$$;
+
+REVOKE ALL ON FUNCTION public.adjust_no_show_count(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.adjust_no_show_count(uuid, integer) TO service_role;
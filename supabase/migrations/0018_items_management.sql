@@ -0,0 +1,39 @@
+-- Storage Valet - Migration 0018
+-- Customer item management (items function): soft delete, photos, and an atomic photo append
+-- used by the confirm_photo operation once an upload has landed in Storage
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+  ADD COLUMN IF NOT EXISTS photo_paths text[] NOT NULL DEFAULT '{}';
+
+-- Private bucket for item photos (objects live under <user_id>/<item_id>/)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('item-photos', 'item-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Append one photo path if the item is active, doesn't have it yet, and is under the limit
+-- Returns the new photo_paths, NULL if nothing was appended
+CREATE OR REPLACE FUNCTION public.append_item_photo(
+  p_item_id uuid,
+  p_user_id uuid,
+  p_path text,
+  p_max_photos integer
+)
+RETURNS text[]
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.items
+  SET photo_paths = array_append(photo_paths, p_path),
+      updated_at = now()
+  WHERE id = p_item_id
+    AND user_id = p_user_id
+    AND archived_at IS NULL
+    AND NOT (p_path = ANY(photo_paths))
+    AND cardinality(photo_paths) < p_max_photos
+  RETURNING photo_paths;
+$$;
+
+REVOKE ALL ON FUNCTION public.append_item_photo(uuid, uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_item_photo(uuid, uuid, text, integer) TO service_role;
@@ -0,0 +1,16 @@
+-- Storage Valet - Migration 0019
+-- Declared value per item (dollars), capped per plan by the items and complete-service functions
+-- and recorded on pickups for claims
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS declared_value numeric(10,2);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_constraint WHERE conname = 'items_declared_value_nonnegative'
+  ) THEN
+    ALTER TABLE public.items
+      ADD CONSTRAINT items_declared_value_nonnegative CHECK (declared_value IS NULL OR declared_value >= 0);
+  END IF;
+END $$;
@@ -0,0 +1,22 @@
+-- Storage Valet - Migration 0020
+-- Warehouse bin locations (item-locations): current location on the item and an append-only history.
+-- complete-service clears the location on delivery and records that move too.
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS warehouse_location text;
+
+CREATE TABLE IF NOT EXISTS public.item_location_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.items(id) ON DELETE CASCADE,
+  from_location text,                 -- NULL when first placed
+  to_location text,                   -- NULL when the item leaves the warehouse
+  moved_by uuid NOT NULL,             -- staff user id (auth.users)
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_location_history_item_created
+  ON public.item_location_history (item_id, created_at DESC);
+
+-- Service role only (edge functions); no customer access
+ALTER TABLE public.item_location_history ENABLE ROW LEVEL SECURITY;
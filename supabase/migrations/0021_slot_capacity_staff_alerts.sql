@@ -0,0 +1,44 @@
+-- Storage Valet - Migration 0021
+-- Slot capacity rules (_shared/slotCapacity.ts: calendly-webhook, update-booking-items, booking-reschedule)
+-- and staff alerts raised by calendly-webhook (slot_over_capacity, booking_blocked_dispute)
+
+-- Rules are in the service timezone (America/New_York): weekday 0 = Sunday, NULL = every day;
+-- a weekday-specific rule wins over an every-day rule for the same window
+CREATE TABLE IF NOT EXISTS public.slot_capacity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  weekday smallint CHECK (weekday BETWEEN 0 AND 6),
+  window_start time NOT NULL,
+  window_end time NOT NULL,
+  vans integer NOT NULL CHECK (vans >= 0),
+  max_items integer CHECK (max_items IS NULL OR max_items >= 0),  -- NULL = uncapped
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (window_start < window_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_capacity_active_window
+  ON public.slot_capacity (weekday, window_start)
+  WHERE active;
+
+CREATE TABLE IF NOT EXISTS public.staff_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_type text NOT NULL,
+  action_id uuid REFERENCES public.actions(id) ON DELETE CASCADE,
+  message text NOT NULL,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One alert per action and type (calendly-webhook upserts with ignoreDuplicates)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_alerts_action_type
+  ON public.staff_alerts (action_id, alert_type);
+
+CREATE INDEX IF NOT EXISTS idx_staff_alerts_open
+  ON public.staff_alerts (created_at DESC)
+  WHERE resolved_at IS NULL;
+
+-- Service role only (edge functions); no customer access
+ALTER TABLE public.slot_capacity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_alerts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,6 @@
+-- Storage Valet - Migration 0022
+-- When the trial_ending email went out (stripe-webhook, customer.subscription.trial_will_end);
+-- a reminder within a week of the current trial_end_at means this trial was already covered
+
+ALTER TABLE public.customer_profile
+  ADD COLUMN IF NOT EXISTS trial_ending_reminder_at timestamptz;
@@ -0,0 +1,119 @@
+-- Storage Valet - Migration 0023
+-- Refunds and disputes (stripe-webhook: charge.refunded, charge.dispute.created/closed)
+
+ALTER TABLE public.customer_profile
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric(10,2) NOT NULL DEFAULT 0,   -- dollars, all charges
+  ADD COLUMN IF NOT EXISTS last_refund_at timestamptz,
+  ADD COLUMN IF NOT EXISTS dispute_open boolean NOT NULL DEFAULT false,        -- on hold: no new bookings
+  ADD COLUMN IF NOT EXISTS dispute_id text,                                    -- most recent dispute
+  ADD COLUMN IF NOT EXISTS dispute_status text,
+  ADD COLUMN IF NOT EXISTS dispute_opened_at timestamptz,
+  ADD COLUMN IF NOT EXISTS dispute_closed_at timestamptz;
+
+-- Refunded total already recorded per charge (Stripe's amount_refunded is cumulative)
+CREATE TABLE IF NOT EXISTS public.stripe_charge_refunds (
+  charge_id text PRIMARY KEY,
+  user_id uuid NOT NULL,
+  amount_refunded_cents integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One row per Stripe dispute; closed_at NULL = still open
+CREATE TABLE IF NOT EXISTS public.stripe_disputes (
+  dispute_id text PRIMARY KEY,
+  user_id uuid NOT NULL,
+  charge_id text NOT NULL,
+  amount_cents integer,
+  reason text,
+  status text NOT NULL,
+  opened_at timestamptz NOT NULL,
+  closed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_disputes_user_open
+  ON public.stripe_disputes (user_id)
+  WHERE closed_at IS NULL;
+
+-- Service role only (edge functions); no customer access
+ALTER TABLE public.stripe_charge_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stripe_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Record a charge's cumulative refunded amount; adds only the part not recorded yet to the profile
+-- and clears needs_manual_refund once fully refunded. Returns the newly recorded cents.
+CREATE OR REPLACE FUNCTION public.record_charge_refund(
+  p_charge_id text,
+  p_user_id uuid,
+  p_amount_refunded_cents integer,
+  p_fully_refunded boolean
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recorded integer;
+  v_delta integer;
+BEGIN
+  INSERT INTO public.stripe_charge_refunds (charge_id, user_id)
+  VALUES (p_charge_id, p_user_id)
+  ON CONFLICT (charge_id) DO NOTHING;
+
+  -- Row lock serializes concurrent events for the same charge
+  SELECT amount_refunded_cents INTO v_recorded
+  FROM public.stripe_charge_refunds
+  WHERE charge_id = p_charge_id
+  FOR UPDATE;
+
+  v_delta := GREATEST(p_amount_refunded_cents - v_recorded, 0);
+
+  IF v_delta > 0 THEN
+    UPDATE public.stripe_charge_refunds
+    SET amount_refunded_cents = p_amount_refunded_cents, updated_at = now()
+    WHERE charge_id = p_charge_id;
+
+    UPDATE public.customer_profile
+    SET refunded_amount = refunded_amount + v_delta / 100.0,
+        last_refund_at = now()
+    WHERE user_id = p_user_id;
+  END IF;
+
+  IF p_fully_refunded THEN
+    UPDATE public.customer_profile
+    SET needs_manual_refund = false
+    WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_delta;
+END;
+$$;
+
+-- Recompute the profile's dispute hold from stripe_disputes: on hold while any dispute is open;
+-- dispute_* describe the latest open dispute, or the latest one when none is open
+CREATE OR REPLACE FUNCTION public.sync_dispute_hold(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.customer_profile cp
+  SET dispute_open = latest.closed_at IS NULL,
+      dispute_id = latest.dispute_id,
+      dispute_status = latest.status,
+      dispute_opened_at = latest.opened_at,
+      dispute_closed_at = latest.closed_at
+  FROM (
+    SELECT dispute_id, status, opened_at, closed_at
+    FROM public.stripe_disputes
+    WHERE user_id = p_user_id
+    ORDER BY (closed_at IS NULL) DESC, opened_at DESC
+    LIMIT 1
+  ) latest
+  WHERE cp.user_id = p_user_id
+  RETURNING cp.dispute_open;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_charge_refund(text, uuid, integer, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_charge_refund(text, uuid, integer, boolean) TO service_role;
+REVOKE ALL ON FUNCTION public.sync_dispute_hold(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_dispute_hold(uuid) TO service_role;
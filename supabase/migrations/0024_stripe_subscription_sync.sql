@@ -0,0 +1,13 @@
+-- Storage Valet - Migration 0024
+-- Out-of-order protection for subscription webhooks (stripe-webhook v4.3+): the newest event
+-- applied per subscription; older events are skipped, same-second ties re-fetch from Stripe
+
+CREATE TABLE IF NOT EXISTS public.stripe_subscription_sync (
+  subscription_id text PRIMARY KEY,
+  last_event_id text NOT NULL,
+  last_event_created_at timestamptz NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Service role only (edge functions); no customer access
+ALTER TABLE public.stripe_subscription_sync ENABLE ROW LEVEL SECURITY;
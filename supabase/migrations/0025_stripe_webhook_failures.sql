@@ -0,0 +1,23 @@
+-- Storage Valet - Migration 0025
+-- Dead-letter queue for stripe-webhook (v4.4+): one row per failed event with its payload,
+-- last error and attempt count; stripe-webhook-replay re-runs them and resolved_at marks success
+
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_failures (
+  event_id text PRIMARY KEY,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  error_message text,
+  error_stack text,
+  attempt_count integer NOT NULL DEFAULT 1,
+  last_attempt_source text CHECK (last_attempt_source IN ('stripe', 'replay')),
+  first_failed_at timestamptz NOT NULL DEFAULT now(),
+  last_failed_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_failures_unresolved
+  ON public.stripe_webhook_failures (last_failed_at DESC)
+  WHERE resolved_at IS NULL;
+
+-- Service role only (edge functions); no customer access
+ALTER TABLE public.stripe_webhook_failures ENABLE ROW LEVEL SECURITY;
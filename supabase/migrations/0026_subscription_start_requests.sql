@@ -0,0 +1,33 @@
+-- Storage Valet - Migration 0026
+-- Monthly subscription starts for v1 setup-fee customers after their first pickup
+-- (complete-service, approve-subscription-start, stripe-webhook). One row per customer:
+--   pending   queued for an admin (approval mode, missing Stripe customer, failed auto-start)
+--   starting  claimed by complete-service or an approval while the Stripe subscription is created
+--   started   auto-started after the pickup
+--   approved  started by an admin
+--   rejected  declined by an admin
+--   fulfilled a subscription was started another way (stripe-webhook)
+
+CREATE TABLE IF NOT EXISTS public.subscription_start_requests (
+  user_id uuid PRIMARY KEY,
+  action_id uuid REFERENCES public.actions(id) ON DELETE SET NULL,   -- the first pickup
+  stripe_customer_id text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'starting', 'started', 'approved', 'rejected', 'fulfilled')),
+  reason text,
+  claimed_at timestamptz,
+  -- Fixed on the first attempt so retries send Stripe the same parameters for the idempotency key
+  collection_method text CHECK (collection_method IN ('charge_automatically', 'send_invoice')),
+  subscription_id text,
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  decided_by uuid,
+  decided_at timestamptz,
+  decision_note text
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_start_requests_pending
+  ON public.subscription_start_requests (requested_at)
+  WHERE status = 'pending';
+
+-- Service role only (edge functions); no customer access
+ALTER TABLE public.subscription_start_requests ENABLE ROW LEVEL SECURITY;
@@ -1,5 +1,5 @@
 -- Storage Valet - Schema Verification Queries
--- Run these to verify migrations 0011-0013 were applied correctly
+-- Run these to verify migrations 0011-0026 were applied correctly
 -- Expected: User confirmed schema is correct, all queries should return rows/true
 
 -- ============================================================================
@@ -140,6 +140,251 @@ WHERE n.nspname = 'public'
 AND p.proname = 'log_booking_event';
 -- Expected: 1 row with is_security_definer = true
 
+-- ============================================================================
+-- PART 13: Verify actions.service_type accepts 'exchange' (Migration 0014)
+-- ============================================================================
+
+SELECT c.udt_name, e.enumlabel
+FROM information_schema.columns c
+LEFT JOIN pg_type t ON t.typname = c.udt_name AND t.typtype = 'e'
+LEFT JOIN pg_enum e ON e.enumtypid = t.oid AND e.enumlabel = 'exchange'
+WHERE c.table_name = 'actions'
+AND c.column_name = 'service_type';
+-- Expected: 1 row; enumlabel = exchange (or udt_name = text, no enum to extend)
+
+-- ============================================================================
+-- PART 14: Verify items.status accepts 'missing' (Migration 0015)
+-- ============================================================================
+
+SELECT c.udt_name, e.enumlabel
+FROM information_schema.columns c
+LEFT JOIN pg_type t ON t.typname = c.udt_name AND t.typtype = 'e'
+LEFT JOIN pg_enum e ON e.enumtypid = t.oid AND e.enumlabel = 'missing'
+WHERE c.table_name = 'items'
+AND c.column_name = 'status';
+-- Expected: 1 row; enumlabel = missing (or udt_name = text, no enum to extend)
+
+-- ============================================================================
+-- PART 15: Verify actions proof-of-service columns (Migration 0016)
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'actions'
+AND column_name IN ('proof_photo_paths', 'signature_path', 'driver_notes')
+ORDER BY column_name;
+-- Expected: 3 rows
+
+-- ============================================================================
+-- PART 16: Verify no_show action status (Migration 0017)
+-- ============================================================================
+
+SELECT enumlabel
+FROM pg_enum
+WHERE enumtypid = (
+  SELECT oid FROM pg_type WHERE typname = 'action_status'
+)
+AND enumlabel = 'no_show';
+-- Expected: 1 row
+
+-- ============================================================================
+-- PART 17: Verify no-show columns (Migration 0017)
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'customer_profile' AND column_name = 'no_show_count')
+OR (table_name = 'actions' AND column_name = 'no_show_cleared_at')
+ORDER BY table_name;
+-- Expected: 2 rows
+
+-- ============================================================================
+-- PART 18: Verify adjust_no_show_count function (Migration 0017)
+-- ============================================================================
+
+SELECT
+  p.proname as function_name,
+  pg_get_function_arguments(p.oid) as arguments,
+  pg_get_functiondef(p.oid) LIKE '%SECURITY DEFINER%' as is_security_definer
+FROM pg_proc p
+JOIN pg_namespace n ON p.pronamespace = n.oid
+WHERE n.nspname = 'public'
+AND p.proname = 'adjust_no_show_count';
+-- Expected: 1 row with is_security_definer = true
+
+-- ============================================================================
+-- PART 19: Verify items management columns (Migration 0018)
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'items'
+AND column_name IN ('archived_at', 'photo_paths')
+ORDER BY column_name;
+-- Expected: 2 rows
+
+-- ============================================================================
+-- PART 20: Verify append_item_photo function and item-photos bucket (Migration 0018)
+-- ============================================================================
+
+SELECT p.proname, pg_get_function_identity_arguments(p.oid) AS args
+FROM pg_proc p
+JOIN pg_namespace n ON p.pronamespace = n.oid
+WHERE n.nspname = 'public' AND p.proname = 'append_item_photo';
+-- Expected: 1 row
+
+SELECT id, public FROM storage.buckets WHERE id = 'item-photos';
+-- Expected: 1 row; public = false
+
+-- ============================================================================
+-- PART 21: Verify items.declared_value (Migration 0019)
+-- ============================================================================
+
+SELECT column_name, data_type, numeric_precision, numeric_scale
+FROM information_schema.columns
+WHERE table_name = 'items'
+AND column_name = 'declared_value';
+-- Expected: 1 row; numeric(10,2)
+
+SELECT conname
+FROM pg_constraint
+WHERE conname = 'items_declared_value_nonnegative';
+-- Expected: 1 row
+
+-- ============================================================================
+-- PART 22: Verify items.warehouse_location and item_location_history (Migration 0020)
+-- ============================================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'items'
+AND column_name = 'warehouse_location';
+-- Expected: 1 row
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'item_location_history'
+ORDER BY ordinal_position;
+-- Expected: id, item_id, from_location, to_location, moved_by, note, created_at
+
+SELECT indexname
+FROM pg_indexes
+WHERE tablename = 'item_location_history'
+AND indexname = 'idx_item_location_history_item_created';
+-- Expected: 1 row
+
+-- ============================================================================
+-- PART 23: Verify slot_capacity table (Migration 0021)
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'slot_capacity'
+ORDER BY ordinal_position;
+-- Expected: id, weekday, window_start, window_end, vans, max_items, active, created_at, updated_at
+
+-- ============================================================================
+-- PART 24: Verify staff_alerts table and dedupe index (Migration 0021)
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'staff_alerts'
+ORDER BY ordinal_position;
+-- Expected: id, alert_type, action_id, message, metadata, resolved_at, created_at
+
+SELECT indexname, indexdef
+FROM pg_indexes
+WHERE tablename = 'staff_alerts'
+AND indexname = 'idx_staff_alerts_action_type';
+-- Expected: 1 row; UNIQUE (action_id, alert_type)
+
+-- ============================================================================
+-- PART 25: Verify customer_profile.trial_ending_reminder_at (Migration 0022)
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'customer_profile'
+AND column_name = 'trial_ending_reminder_at';
+-- Expected: 1 row; timestamp with time zone, nullable
+
+-- ============================================================================
+-- PART 26: Verify refund and dispute columns on customer_profile (Migration 0023)
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'customer_profile'
+AND column_name IN (
+  'refunded_amount', 'last_refund_at', 'dispute_open', 'dispute_id',
+  'dispute_status', 'dispute_opened_at', 'dispute_closed_at'
+)
+ORDER BY column_name;
+-- Expected: 7 rows
+
+-- ============================================================================
+-- PART 27: Verify stripe_charge_refunds and stripe_disputes tables (Migration 0023)
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('stripe_charge_refunds', 'stripe_disputes')
+ORDER BY table_name, ordinal_position;
+-- Expected: stripe_charge_refunds (4 columns), stripe_disputes (8 columns)
+
+-- ============================================================================
+-- PART 28: Verify record_charge_refund and sync_dispute_hold functions (Migration 0023)
+-- ============================================================================
+
+SELECT p.proname, pg_get_function_identity_arguments(p.oid) AS args
+FROM pg_proc p
+JOIN pg_namespace n ON p.pronamespace = n.oid
+WHERE n.nspname = 'public'
+AND p.proname IN ('record_charge_refund', 'sync_dispute_hold')
+ORDER BY p.proname;
+-- Expected: 2 rows
+
+-- ============================================================================
+-- PART 29: Verify stripe_subscription_sync table (Migration 0024)
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'stripe_subscription_sync'
+ORDER BY ordinal_position;
+-- Expected: subscription_id, last_event_id, last_event_created_at, updated_at
+
+-- ============================================================================
+-- PART 30: Verify stripe_webhook_failures table (Migration 0025)
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'stripe_webhook_failures'
+ORDER BY ordinal_position;
+-- Expected: event_id, event_type, payload, error_message, error_stack, attempt_count,
+--           last_attempt_source, first_failed_at, last_failed_at, resolved_at
+
+-- ============================================================================
+-- PART 31: Verify subscription_start_requests table (Migration 0026)
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'subscription_start_requests'
+ORDER BY ordinal_position;
+-- Expected: user_id, action_id, stripe_customer_id, status, reason, claimed_at, collection_method,
+--           subscription_id, requested_at, decided_by, decided_at, decision_note
+
+SELECT pg_get_constraintdef(c.oid)
+FROM pg_constraint c
+JOIN pg_class t ON t.oid = c.conrelid
+WHERE t.relname = 'subscription_start_requests'
+AND c.contype = 'c'
+AND pg_get_constraintdef(c.oid) LIKE '%starting%';
+-- Expected: 1 row listing pending, starting, started, approved, rejected, fulfilled
+
 -- ============================================================================
 -- SUMMARY QUERY
 -- ============================================================================
@@ -184,6 +429,253 @@ SELECT
     JOIN pg_namespace n ON p.pronamespace = n.oid
     WHERE n.nspname = 'public' AND p.proname = 'log_booking_event'
   ) THEN 1 ELSE 0 END,
-  1;
+  1
+
+UNION ALL
+
+SELECT
+  'service_type exchange',
+  COUNT(*),
+  1
+FROM information_schema.columns c
+WHERE c.table_name = 'actions'
+AND c.column_name = 'service_type'
+AND (
+  c.udt_name = 'text'
+  OR EXISTS (
+    SELECT FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = c.udt_name AND e.enumlabel = 'exchange'
+  )
+)
+
+UNION ALL
+
+SELECT
+  'item status missing',
+  COUNT(*),
+  1
+FROM information_schema.columns c
+WHERE c.table_name = 'items'
+AND c.column_name = 'status'
+AND (
+  c.udt_name = 'text'
+  OR EXISTS (
+    SELECT FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = c.udt_name AND e.enumlabel = 'missing'
+  )
+)
+
+UNION ALL
+
+SELECT
+  'actions proof-of-service columns',
+  COUNT(*),
+  3
+FROM information_schema.columns
+WHERE table_name = 'actions'
+AND column_name IN ('proof_photo_paths', 'signature_path', 'driver_notes')
+
+UNION ALL
+
+SELECT
+  'no_show status',
+  COUNT(*),
+  1
+FROM pg_enum
+WHERE enumtypid = (SELECT oid FROM pg_type WHERE typname = 'action_status')
+AND enumlabel = 'no_show'
+
+UNION ALL
+
+SELECT
+  'no-show columns',
+  COUNT(*),
+  2
+FROM information_schema.columns
+WHERE (table_name = 'customer_profile' AND column_name = 'no_show_count')
+OR (table_name = 'actions' AND column_name = 'no_show_cleared_at')
+
+UNION ALL
+
+SELECT
+  'adjust_no_show_count function',
+  CASE WHEN EXISTS (
+    SELECT FROM pg_proc p
+    JOIN pg_namespace n ON p.pronamespace = n.oid
+    WHERE n.nspname = 'public' AND p.proname = 'adjust_no_show_count'
+  ) THEN 1 ELSE 0 END,
+  1
+
+UNION ALL
+
+SELECT
+  'items management columns',
+  COUNT(*),
+  2
+FROM information_schema.columns
+WHERE table_name = 'items'
+AND column_name IN ('archived_at', 'photo_paths')
+
+UNION ALL
+
+SELECT
+  'append_item_photo function',
+  CASE WHEN EXISTS (
+    SELECT FROM pg_proc p
+    JOIN pg_namespace n ON p.pronamespace = n.oid
+    WHERE n.nspname = 'public' AND p.proname = 'append_item_photo'
+  ) THEN 1 ELSE 0 END,
+  1
+
+UNION ALL
+
+SELECT
+  'item-photos bucket',
+  COUNT(*),
+  1
+FROM storage.buckets
+WHERE id = 'item-photos'
+
+UNION ALL
+
+SELECT
+  'items declared_value column',
+  COUNT(*),
+  1
+FROM information_schema.columns
+WHERE table_name = 'items'
+AND column_name = 'declared_value'
+
+UNION ALL
+
+SELECT
+  'items warehouse_location column',
+  COUNT(*),
+  1
+FROM information_schema.columns
+WHERE table_name = 'items'
+AND column_name = 'warehouse_location'
+
+UNION ALL
+
+SELECT
+  'item_location_history table',
+  COUNT(*),
+  7
+FROM information_schema.columns
+WHERE table_name = 'item_location_history'
+AND column_name IN ('id', 'item_id', 'from_location', 'to_location', 'moved_by', 'note', 'created_at')
+
+UNION ALL
+
+SELECT
+  'slot_capacity table',
+  COUNT(*),
+  7
+FROM information_schema.columns
+WHERE table_name = 'slot_capacity'
+AND column_name IN ('id', 'weekday', 'window_start', 'window_end', 'vans', 'max_items', 'active')
+
+UNION ALL
+
+SELECT
+  'staff_alerts table',
+  COUNT(*),
+  5
+FROM information_schema.columns
+WHERE table_name = 'staff_alerts'
+AND column_name IN ('id', 'alert_type', 'action_id', 'message', 'metadata')
+
+UNION ALL
+
+SELECT
+  'staff_alerts dedupe index',
+  COUNT(*),
+  1
+FROM pg_indexes
+WHERE tablename = 'staff_alerts'
+AND indexname = 'idx_staff_alerts_action_type'
+
+UNION ALL
+
+SELECT
+  'trial_ending_reminder_at column',
+  COUNT(*),
+  1
+FROM information_schema.columns
+WHERE table_name = 'customer_profile'
+AND column_name = 'trial_ending_reminder_at'
+
+UNION ALL
+
+SELECT
+  'refund/dispute profile columns',
+  COUNT(*),
+  7
+FROM information_schema.columns
+WHERE table_name = 'customer_profile'
+AND column_name IN (
+  'refunded_amount', 'last_refund_at', 'dispute_open', 'dispute_id',
+  'dispute_status', 'dispute_opened_at', 'dispute_closed_at'
+)
+
+UNION ALL
+
+SELECT
+  'stripe_charge_refunds + stripe_disputes tables',
+  COUNT(*),
+  2
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('stripe_charge_refunds', 'stripe_disputes')
+
+UNION ALL
+
+SELECT
+  'refund/dispute functions',
+  COUNT(*),
+  2
+FROM pg_proc p
+JOIN pg_namespace n ON p.pronamespace = n.oid
+WHERE n.nspname = 'public'
+AND p.proname IN ('record_charge_refund', 'sync_dispute_hold')
+
+UNION ALL
+
+SELECT
+  'stripe_subscription_sync table',
+  COUNT(*),
+  4
+FROM information_schema.columns
+WHERE table_name = 'stripe_subscription_sync'
+AND column_name IN ('subscription_id', 'last_event_id', 'last_event_created_at', 'updated_at')
+
+UNION ALL
+
+SELECT
+  'stripe_webhook_failures table',
+  COUNT(*),
+  10
+FROM information_schema.columns
+WHERE table_name = 'stripe_webhook_failures'
+AND column_name IN (
+  'event_id', 'event_type', 'payload', 'error_message', 'error_stack', 'attempt_count',
+  'last_attempt_source', 'first_failed_at', 'last_failed_at', 'resolved_at'
+)
+
+UNION ALL
+
+SELECT
+  'subscription_start_requests table',
+  COUNT(*),
+  12
+FROM information_schema.columns
+WHERE table_name = 'subscription_start_requests'
+AND column_name IN (
+  'user_id', 'action_id', 'stripe_customer_id', 'status', 'reason', 'claimed_at', 'collection_method',
+  'subscription_id', 'requested_at', 'decided_by', 'decided_at', 'decision_note'
+);
 
 -- Expected: All rows should have found = expected